@@ -1,4 +1,4 @@
-import { useEffect, useState, useMemo, useRef, useCallback } from 'react';
+import { Fragment, useEffect, useState, useMemo, useRef, useCallback } from 'react';
 import ReactFlow, { Background, Controls, Panel, type Node, type Edge, useNodesState, useEdgesState, MarkerType, Handle, Position, ReactFlowProvider, useReactFlow } from 'reactflow';
 import dagre from 'dagre';
 import * as d3 from 'd3-force';
@@ -23,7 +23,8 @@ dagreGraph.setDefaultEdgeLabel(() => ({}));
 
 const DataNode = ({ data, selected }: any) => {
   let borderColor = `2px solid hsla(${data.hue}, 70%, 40%, 1)`;
-  if (data.coverage !== undefined && data.coverage !== null) {
+  // Risk already weighs coverage in, so the coverage border is left out when shading by risk
+  if (!data.shadeByRisk && data.coverage !== undefined && data.coverage !== null) {
       if (data.coverage < 75) borderColor = '3px solid #e53935';
       else if (data.coverage < 85) borderColor = '3px solid #fb8c00';
       else borderColor = '3px solid #43a047';
@@ -32,10 +33,10 @@ const DataNode = ({ data, selected }: any) => {
   return (
      <div style={{
          width: '100%', height: '100%', borderRadius: '50%',
-         backgroundColor: `hsla(${data.hue}, 70%, 70%, 1)`,
+         backgroundColor: data.shadeByRisk ? riskColor(data.risk) : `hsla(${data.hue}, 70%, 70%, 1)`,
          border: selected ? '3px solid #333' : borderColor,
          display: 'flex', alignItems: 'center', justifyContent: 'center',
-         boxShadow: '0 2px 5px rgba(0,0,0,0.2)'
+         boxShadow: data.change ? `0 0 0 4px ${CHANGE_COLORS[data.change as ChangeKind]}` : '0 2px 5px rgba(0,0,0,0.2)'
      }}>
          {data.showLabel && (
              <div style={{ 
@@ -67,6 +68,9 @@ const getColorForType = (type: string) => {
   return hue;
 };
 
+// Group for components of an SFDX project that no package directory contains
+const NO_PACKAGE = '(no package)';
+
 const getGroupedLayoutElements = (nodes: Node[], edges: Edge[]) => {
   if (nodes.length === 0) return { nodes: [] };
 
@@ -75,7 +79,7 @@ const getGroupedLayoutElements = (nodes: Node[], edges: Edge[]) => {
   const nodeTypeMap = new Map<string, string>();
 
   nodes.forEach(n => {
-    const type = n.data.type || 'Other';
+    const type = n.data.group || n.data.type || 'Other';
     nodeTypeMap.set(n.id, type);
     if (!typeGroups[type]) typeGroups[type] = { nodes: [], internalEdges: [] };
     typeGroups[type].nodes.push(n);
@@ -186,6 +190,206 @@ const getGroupedLayoutElements = (nodes: Node[], edges: Edge[]) => {
 };
 
 
+// Attributes sync stores for each component (from sf org list metadata)
+const COMPONENT_ATTRIBUTES = ['namespacePrefix', 'manageableState', 'createdByName', 'createdDate', 'lastModifiedByName', 'lastModifiedDate', 'fileName'] as const;
+type ComponentAttributes = { [K in typeof COMPONENT_ATTRIBUTES[number]]?: string };
+
+// Read the attributes of either side of a dependency row, e.g. refMetadataComponentLastModifiedDate
+const getAttributes = (d: Record<string, unknown>, prefix: 'metadataComponent' | 'refMetadataComponent'): ComponentAttributes => {
+  const attrs: ComponentAttributes = {};
+  COMPONENT_ATTRIBUTES.forEach(a => {
+    const value = d[`${prefix}${a[0].toUpperCase()}${a.slice(1)}`];
+    if (value) attrs[a] = String(value);
+  });
+  return attrs;
+};
+
+// Changes since an earlier sync run, from /api/diff
+type ChangeKind = 'added' | 'coverage';
+const CHANGE_COLORS: Record<ChangeKind, string> = { added: '#00c853', coverage: '#8e24aa' };
+type RunDiff = {
+  addedComponents: { id: string, name: string, type: string }[];
+  removedComponents: { id: string, name: string, type: string }[];
+  addedEdges: { sourceId: string, targetId: string }[];
+  removedEdges: { sourceId: string, targetId: string }[];
+  coverageChanges: { id: string, fromCoverage: number | null, toCoverage: number | null }[];
+};
+
+// A part of the graph to bring forward (e.g. a dependency path); everything else is dimmed
+type GraphHighlight = { nodeIds: Set<string>, edgeKeys: Set<string>, color: string };
+
+// Marks layered on top of the laid out graph, so changing them doesn't re-run the layout
+type GraphDecorations = { diff: RunDiff | null, highlight: GraphHighlight | null };
+
+const edgeKey = (source: string, target: string) => `${source}->${target}`;
+const DIMMED_OPACITY = 0.15;
+
+// Mark added and coverage-changed nodes and dim the ones outside the highlight
+const decorateNodes = (nodes: Node[], { diff, highlight }: GraphDecorations) => {
+  const changes = new Map<string, ChangeKind>();
+  diff?.coverageChanges.forEach(c => changes.set(c.id, 'coverage'));
+  diff?.addedComponents.forEach(c => changes.set(c.id, 'added'));
+  return nodes.map(n => n.type === 'dataNode' ? {
+    ...n,
+    data: { ...n.data, change: changes.get(n.id) },
+    style: { ...n.style, opacity: highlight && !highlight.nodeIds.has(n.id) ? DIMMED_OPACITY : 1 }
+  } : n);
+};
+
+const decorateEdges = (edges: Edge[], { diff, highlight }: GraphDecorations) => {
+  const addedEdges = new Set(diff?.addedEdges.map(e => edgeKey(e.sourceId, e.targetId)));
+  return edges.map(e => {
+    const key = edgeKey(e.source, e.target);
+    const highlighted = !!highlight && highlight.edgeKeys.has(key);
+    const color = highlighted ? highlight!.color : addedEdges.has(key) ? CHANGE_COLORS.added : '#ccc';
+    return {
+      ...e,
+      style: { ...e.style, stroke: color, strokeWidth: highlighted ? 3 : 1, opacity: highlight && !highlighted ? DIMMED_OPACITY : 1 },
+      markerEnd: { type: MarkerType.ArrowClosed, color }
+    };
+  });
+};
+
+// Facets /api/components can filter and count by
+type SearchFacet = 'type' | 'namespace' | 'coverage';
+type FacetCounts = Record<SearchFacet, { value: string, count: number }[]>;
+const SEARCH_FACET_LABELS: Record<SearchFacet, string> = { type: 'Type', namespace: 'Namespace', coverage: 'Coverage' };
+const facetValueLabel = (facet: SearchFacet, value: string) => {
+  if (facet === 'namespace' && value === '') return '(unmanaged)';
+  if (facet === 'coverage') return ({ none: 'No coverage', low: '< 75%', medium: '75-85%', high: '>= 85%' } as Record<string, string>)[value] || value;
+  return value;
+};
+const SEARCH_PAGE_SIZE = 50;
+
+const buildSearchUrl = (term: string, facets: Record<SearchFacet, string[]>, offset: number) => {
+  const params = new URLSearchParams({ q: term, offset: String(offset), limit: String(SEARCH_PAGE_SIZE) });
+  (Object.keys(facets) as SearchFacet[]).forEach(facet => {
+    if (facets[facet].length > 0) params.set(facet, facets[facet].join(','));
+  });
+  return import.meta.env.DEV ? `http://localhost:3000/api/components?${params}` : `/api/components?${params}`;
+};
+
+// Result of /api/impact/:id, everything a change to a component reaches
+type ImpactDirection = 'up' | 'down' | 'both';
+type ImpactResult = {
+  id: string;
+  name: string;
+  type: string;
+  direction: 'up' | 'down';
+  distance: number;
+  path: { id: string, name: string, type: string }[];
+};
+
+// Result of /api/path: each path lists components from "from" to "to" (or back, when reversed)
+type PathComponent = { id: string, name: string, type: string };
+type PathResult = { reversed: boolean, paths: PathComponent[][], edges: Record<string, unknown>[] };
+const PATH_COLOR = '#d81b60';
+
+// Highlight for a set of paths: their components and the edges between consecutive ones
+const pathHighlight = (paths: PathComponent[][]): GraphHighlight => ({
+  nodeIds: new Set(paths.flat().map(c => c.id)),
+  edgeKeys: new Set(paths.flatMap(path => path.slice(1).map((c, i) => edgeKey(path[i].id, c.id)))),
+  color: PATH_COLOR
+});
+
+// Result of /api/cycles: members of one circular dependency and the rows that close it
+type DependencyCycle = {
+  members: { id: string, name: string, type: string }[];
+  edges: { sourceId: string, targetId: string }[];
+  example: string[];
+  rows: Record<string, unknown>[];
+};
+const CYCLE_COLOR = '#ff6f00';
+
+// Result of /api/rules: each architecture rule and the dependencies that break it
+type RuleViolation = {
+  rule: string;
+  source: { id: string, name: string, type: string };
+  target: { id: string, name: string, type: string };
+  row?: Record<string, unknown>;
+};
+type RuleCheck = { rules: { name: string, description?: string, violations: number }[], violations: RuleViolation[] };
+const RULE_COLOR = '#c62828';
+
+// Result of /api/risk: scored Apex components, riskiest first
+type RiskyComponent = {
+  id: string;
+  name: string;
+  type: string;
+  size: number | null;
+  coverage: number | null;
+  // Transitive dependents, counted up to RISK_FAN_IN_CAP
+  fanIn: number;
+  risk: number;
+};
+const RISK_FAN_IN_CAP = 1000;
+const RISK_COLOR = '#e65100';
+
+// Green at risk 0 to red at 100; components without a score are grey
+const riskColor = (risk?: number | null) =>
+  typeof risk === 'number' ? `hsl(${Math.round(120 - 1.2 * Math.min(risk, 100))}, 70%, 60%)` : '#e0e0e0';
+
+// Result of /api/unused: deletion candidates and the entry points that were kept
+type UnusedComponent = {
+  id: string;
+  name: string;
+  type: string;
+  size: number | null;
+  coverage: number | null;
+  lastModifiedDate: string | null;
+  referencedBy: string[];
+  testedBy: string[];
+};
+type UnusedReport = { candidates: UnusedComponent[], entryPoints: Record<string, number>, unchecked: number };
+type UnusedSortKey = 'name' | 'type' | 'size' | 'lastModifiedDate';
+const UNUSED_COLOR = '#7b1fa2';
+
+// Sort a copy of the candidates, keeping missing values last in either direction
+const sortUnused = (candidates: UnusedComponent[], key: UnusedSortKey, ascending: boolean) =>
+  [...candidates].sort((a, b) => {
+    const left = a[key], right = b[key];
+    if (left === right) return a.name.localeCompare(b.name);
+    if (left === null) return 1;
+    if (right === null) return -1;
+    const order = typeof left === 'number' ? left - (right as number) : String(left).localeCompare(String(right));
+    return ascending ? order : -order;
+  });
+
+// Formats /api/export understands, with the extension of the downloaded file
+type ExportFormat = 'graphml' | 'gexf' | 'dot' | 'mermaid' | 'csv';
+const EXPORT_FORMATS: { format: ExportFormat, label: string, extension: string }[] = [
+  { format: 'graphml', label: 'GraphML (yEd, Gephi)', extension: 'graphml' },
+  { format: 'gexf', label: 'GEXF (Gephi)', extension: 'gexf' },
+  { format: 'dot', label: 'DOT (Graphviz)', extension: 'dot' },
+  { format: 'mermaid', label: 'Mermaid', extension: 'mmd' },
+  { format: 'csv', label: 'CSV', extension: 'csv' }
+];
+
+// Sync started from the UI, as reported by /api/sync/events
+type SyncMode = 'full' | 'incremental' | 'retry-failed';
+type SyncStatus = {
+  status: 'idle' | 'running' | 'done' | 'failed';
+  phase?: 'metadata' | 'apexStats' | 'dependencies';
+  percent?: number;
+  errors: string[];
+  message?: string;
+};
+const SYNC_PHASE_LABELS = { metadata: 'Metadata types', apexStats: 'Apex stats', dependencies: 'Dependency edges' };
+
+// Result of /api/compare, matched by type and name since IDs differ between orgs
+type ComparedEdge = { sourceType: string, sourceName: string, targetType: string, targetName: string };
+type OrgComparison = {
+  left: string;
+  right: string;
+  onlyHere: { components: { type: string, name: string }[], edges: ComparedEdge[] };
+  onlyOther: { components: { type: string, name: string }[], edges: ComparedEdge[] };
+  differences: { type: string, name: string, size: number | null, otherSize: number | null, coverage: number | null, otherCoverage: number | null }[];
+};
+
+// Anything but "unmanaged" comes from a package (installed, released, beta, deprecated...)
+const isManaged = (attrs: ComponentAttributes) =>
+  attrs.manageableState ? attrs.manageableState !== 'unmanaged' : !!attrs.namespacePrefix;
+
 const getEffectiveType = (type: string, name: string) => {
   // If it has the word Test in it then it is a test class
   if (type === 'ApexClass' && name && name.toLowerCase().includes('test')) {
@@ -195,79 +399,19 @@ const getEffectiveType = (type: string, name: string) => {
 };
 
 // --- Cluster Analysis Logic ---
+// A module proposed by /api/communities (Louvain community detection on the server)
 interface Cluster {
   id: number;
-  nodeIds: Set<string>;
-  nodes: any[];
-  size: number;
+  members: { id: string, name: string, type: string }[];
+  internalEdges: number;
+  externalEdges: number;
+  cohesion: number;
 }
 
-const findClusters = (data: any[]): Cluster[] => {
-  const adjList = new Map<string, Set<string>>();
-  const nodeMap = new Map<string, any>();
-
-  // Build Graph
-  data.forEach((d) => {
-    // Register Nodes
-    if (d.metadataComponentId) {
-      if (!adjList.has(d.metadataComponentId)) adjList.set(d.metadataComponentId, new Set());
-      if (!nodeMap.has(d.metadataComponentId)) nodeMap.set(d.metadataComponentId, { id: d.metadataComponentId, name: d.metadataComponentName, type: d.metadataComponentType });
-    }
-    if (d.refMetadataComponentId) {
-      if (!adjList.has(d.refMetadataComponentId)) adjList.set(d.refMetadataComponentId, new Set());
-       // Note: d.refMetadataComponentName might be missing if it's just a ref, but usually we have it
-       if (!nodeMap.has(d.refMetadataComponentId)) {
-           nodeMap.set(d.refMetadataComponentId, { 
-               id: d.refMetadataComponentId, 
-               name: d.refMetadataComponentName || d.refMetadataComponentComponentName, 
-               type: d.refMetadataComponentType 
-            });
-       }
-    }
-
-    // Register Edges (Undirected for cluster analysis)
-    if (d.metadataComponentId && d.refMetadataComponentId && d.metadataComponentId !== d.refMetadataComponentId) {
-      adjList.get(d.metadataComponentId)?.add(d.refMetadataComponentId);
-      adjList.get(d.refMetadataComponentId)?.add(d.metadataComponentId);
-    }
-  });
-
-  const visited = new Set<string>();
-  const clusters: Cluster[] = [];
-  let clusterId = 1;
-
-  for (const nodeId of adjList.keys()) {
-    if (!visited.has(nodeId)) {
-      const clusterNodes = new Set<string>();
-      const queue = [nodeId];
-      visited.add(nodeId);
-      clusterNodes.add(nodeId);
-
-      while (queue.length > 0) {
-        const curr = queue.shift()!;
-        const neighbors = adjList.get(curr);
-        if (neighbors) {
-          for (const neighbor of neighbors) {
-            if (!visited.has(neighbor)) {
-              visited.add(neighbor);
-              clusterNodes.add(neighbor);
-              queue.push(neighbor);
-            }
-          }
-        }
-      }
-
-      clusters.push({
-        id: clusterId++,
-        nodeIds: clusterNodes,
-        nodes: Array.from(clusterNodes).map(id => nodeMap.get(id)).filter(n => n),
-        size: clusterNodes.size
-      });
-    }
-  }
-
-  // Sort by size (descending)
-  return clusters.sort((a, b) => b.size - a.size);
+type CommunityResult = {
+  modularity: number;
+  excluded: { id: string, name: string, type: string, reason: 'standard' | 'hub' }[];
+  communities: Cluster[];
 };
 
 const matchFilter = (label: string, filter: string) => {
@@ -296,7 +440,9 @@ function AppContent() {
   const [globalFilter, setGlobalFilter] = useState('');
   
   // Cluster Analysis State
-  const [clusters, setClusters] = useState<Cluster[]>([]);
+  const [clusterResult, setClusterResult] = useState<CommunityResult | null>(null);
+  const [clusterExcludeStandard, setClusterExcludeStandard] = useState(true);
+  const [clusterHubDegree, setClusterHubDegree] = useState('');
   const [showAnalysisPanel, setShowAnalysisPanel] = useState(false);
   const [isAnalysisRunning, setIsAnalysisRunning] = useState(false);
   
@@ -306,6 +452,9 @@ function AppContent() {
   // Search State
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [searchFacets, setSearchFacets] = useState<FacetCounts | null>(null);
+  const [facetSelection, setFacetSelection] = useState<Record<SearchFacet, string[]>>({ type: [], namespace: [], coverage: [] });
   const [selectedItems, setSelectedItems] = useState<Map<string, any>>(new Map()); // Map<id, Item>
   const [isLoading, setIsLoading] = useState(false);
   const [isSearchExpanded, setIsSearchExpanded] = useState(true);
@@ -316,15 +465,67 @@ function AppContent() {
   const [showOrphansOnly, setShowOrphansOnly] = useState(false);
   const [showHighlyConnected, setShowHighlyConnected] = useState(false);
   const [connectionThreshold, setConnectionThreshold] = useState(5);
+  const [projectPackages, setProjectPackages] = useState<string[]>([]);
+  const [packageAssignments, setPackageAssignments] = useState<Record<string, string[]>>({});
+  const [colorByPackage, setColorByPackage] = useState(false);
+  const [groupByPackage, setGroupByPackage] = useState(false);
   const [showCoverageFilter, setShowCoverageFilter] = useState(false);
   const [minCoverage, setMinCoverage] = useState(0);
   const [maxCoverage, setMaxCoverage] = useState(100);
+  const [showAttributeFilter, setShowAttributeFilter] = useState(false);
+  const [modifiedByFilter, setModifiedByFilter] = useState('');
+  const [modifiedWithinDays, setModifiedWithinDays] = useState(0);
+  const [packageFilter, setPackageFilter] = useState<'all' | 'managed' | 'unmanaged'>('all');
+  const [namespaceFilter, setNamespaceFilter] = useState('');
+  const [detailsNode, setDetailsNode] = useState<Node | null>(null);
+  const [syncRuns, setSyncRuns] = useState<{ id: number, finishedAt: string, mode: string }[]>([]);
+  const [diffBaseRun, setDiffBaseRun] = useState<number | null>(null);
+  const [runDiff, setRunDiff] = useState<RunDiff | null>(null);
+  const [syncAvailable, setSyncAvailable] = useState(false);
+  const [syncMode, setSyncMode] = useState<SyncMode>('incremental');
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ status: 'idle', errors: [] });
+  const [impactDirection, setImpactDirection] = useState<ImpactDirection>('both');
+  const [impactDepth, setImpactDepth] = useState(3);
+  const [impactResult, setImpactResult] = useState<{ rootId: string, results: ImpactResult[] } | null>(null);
+  const [pathFrom, setPathFrom] = useState<PathComponent | null>(null);
+  const [pathTo, setPathTo] = useState<PathComponent | null>(null);
+  const [pathCount, setPathCount] = useState(1);
+  const [pathResult, setPathResult] = useState<PathResult | null>(null);
+  const [cycles, setCycles] = useState<DependencyCycle[] | null>(null);
+  const [cyclesApexOnly, setCyclesApexOnly] = useState(false);
+  const [showCyclesPanel, setShowCyclesPanel] = useState(false);
+  const [isFindingCycles, setIsFindingCycles] = useState(false);
+  const [ruleCheck, setRuleCheck] = useState<RuleCheck | null>(null);
+  const [showRulesPanel, setShowRulesPanel] = useState(false);
+  const [isCheckingRules, setIsCheckingRules] = useState(false);
+  const [riskRanking, setRiskRanking] = useState<RiskyComponent[] | null>(null);
+  const [showRiskPanel, setShowRiskPanel] = useState(false);
+  const [isRankingRisk, setIsRankingRisk] = useState(false);
+  const [shadeByRisk, setShadeByRisk] = useState(false);
+  const [unusedReport, setUnusedReport] = useState<UnusedReport | null>(null);
+  const [unusedSort, setUnusedSort] = useState<{ key: UnusedSortKey, ascending: boolean }>({ key: 'size', ascending: false });
+  const [showUnusedPanel, setShowUnusedPanel] = useState(false);
+  const [isFindingUnused, setIsFindingUnused] = useState(false);
+  const [otherOrgs, setOtherOrgs] = useState<string[]>([]);
+  const [compareOrg, setCompareOrg] = useState('');
+  const [comparison, setComparison] = useState<OrgComparison | null>(null);
+  const [compareTab, setCompareTab] = useState<'onlyHere' | 'onlyOther' | 'differences'>('onlyHere');
+  const [isComparing, setIsComparing] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('graphml');
+  const [isExporting, setIsExporting] = useState(false);
+  // The event stream is opened once, so it reaches the latest reload function through a ref
+  const reloadAfterSyncRef = useRef<() => void>(() => {});
+  const [highlight, setHighlight] = useState<GraphHighlight | null>(null);
+  // Read by the layout effect so highlighting changes doesn't force a re-layout
+  const decorationsRef = useRef<GraphDecorations>({ diff: null, highlight: null });
 
   // Debounce filter values so layout doesn't recompute on every keystroke
   const debouncedTypeFilters = useDebouncedValue(typeFilters, 300);
   const debouncedGlobalFilter = useDebouncedValue(globalFilter, 300);
   const debouncedMinCoverage = useDebouncedValue(minCoverage, 300);
   const debouncedMaxCoverage = useDebouncedValue(maxCoverage, 300);
+  const debouncedModifiedByFilter = useDebouncedValue(modifiedByFilter, 300);
+  const debouncedNamespaceFilter = useDebouncedValue(namespaceFilter, 300);
 
   const rafRef = useRef<number | null>(null);
 
@@ -463,19 +664,35 @@ function AppContent() {
   useEffect(() => {
     if (searchTerm.length < 2) {
       setSearchResults([]);
+      setSearchFacets(null);
       return;
     }
     const timer = setTimeout(() => {
-        const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/components?q=${searchTerm}` : `/api/components?q=${searchTerm}`;
-        fetch(apiUrl)
+        fetch(buildSearchUrl(searchTerm, facetSelection, 0))
             .then(res => res.json())
             .then(data => {
-                setSearchResults(data);
+                setSearchResults(data.results);
+                setSearchTotal(data.total);
+                setSearchFacets(data.facets);
             })
             .catch(err => console.error("Search failed", err));
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchTerm]);
+  }, [searchTerm, facetSelection]);
+
+  const loadMoreSearchResults = () => {
+    fetch(buildSearchUrl(searchTerm, facetSelection, searchResults.length))
+        .then(res => res.json())
+        .then(data => setSearchResults(prev => [...prev, ...data.results]))
+        .catch(err => console.error("Search failed", err));
+  };
+
+  const toggleFacet = (facet: SearchFacet, value: string) => {
+    setFacetSelection(prev => ({
+        ...prev,
+        [facet]: prev[facet].includes(value) ? prev[facet].filter(v => v !== value) : [...prev[facet], value]
+    }));
+  };
 
   const fetchDependencies = (item: any) => {
     let apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/dependencies/${item.id}` : `/api/dependencies/${item.id}`;
@@ -530,6 +747,7 @@ function AppContent() {
   const clearSelection = () => {
     setSelectedItems(new Map());
     setFetchedResults(new Map());
+    setHighlight(null);
   };
 
   const loadAllDependencies = () => {
@@ -555,6 +773,280 @@ function AppContent() {
         .finally(() => setIsLoading(false));
   };
 
+  // Sync runs to compare against; the latest one is what the graph shows
+  const loadSyncRuns = () => {
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/runs` : `/api/runs`;
+      fetch(apiUrl)
+        .then(res => res.json())
+        .then(setSyncRuns)
+        .catch(err => console.error("Failed to load sync runs", err));
+  };
+
+  useEffect(loadSyncRuns, []);
+
+  // Follow syncs started from this (or another) browser window
+  useEffect(() => {
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/sync/events` : `/api/sync/events`;
+      const events = new EventSource(apiUrl);
+
+      events.addEventListener('state', (e) => {
+          const data = JSON.parse((e as MessageEvent).data);
+          setSyncAvailable(true);
+          setSyncStatus({ status: data.status, phase: data.progress?.phase, percent: data.progress?.percent, errors: [] });
+      });
+      events.addEventListener('start', () => {
+          setSyncStatus({ status: 'running', errors: [] });
+      });
+      events.addEventListener('progress', (e) => {
+          const data = JSON.parse((e as MessageEvent).data);
+          setSyncStatus(prev => ({
+              ...prev,
+              status: 'running',
+              phase: data.phase,
+              percent: data.percent,
+              errors: data.error ? [...prev.errors, data.error] : prev.errors
+          }));
+      });
+      events.addEventListener('done', (e) => {
+          const data = JSON.parse((e as MessageEvent).data);
+          setSyncStatus(prev => ({
+              ...prev,
+              status: 'done',
+              percent: 100,
+              message: `Finished as run #${data.runId}` + (data.failures.length > 0 ? ` with ${data.failures.length} failures` : '')
+          }));
+          reloadAfterSyncRef.current();
+      });
+      events.addEventListener('failed', (e) => {
+          const data = JSON.parse((e as MessageEvent).data);
+          setSyncStatus(prev => ({ ...prev, status: 'failed', message: data.error }));
+      });
+      events.onerror = () => {
+          // The server answers 400 when it has no org to sync; don't keep reconnecting then
+          if (events.readyState === EventSource.CLOSED) setSyncAvailable(false);
+      };
+      return () => events.close();
+  }, []);
+
+  const startSync = () => {
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/sync` : `/api/sync`;
+      fetch(apiUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ mode: syncMode })
+      })
+      .then(res => {
+          if (!res.ok) return res.json().then(e => { throw new Error(e.error) });
+      })
+      .catch(err => {
+          console.error("Failed to start sync:", err);
+          alert(`Failed to start sync: ${err.message}`);
+      });
+  };
+
+  useEffect(() => {
+      if (diffBaseRun === null) return;
+      const query = `from=${diffBaseRun}`;
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/diff?${query}` : `/api/diff?${query}`;
+      fetch(apiUrl)
+        .then(res => res.json().then(data => {
+            if (!res.ok) throw new Error(data.error);
+            setRunDiff(data);
+        }))
+        .catch(err => {
+            console.error("Failed to load diff", err);
+            setDiffBaseRun(null);
+            setRunDiff(null);
+        });
+  }, [diffBaseRun]);
+
+  useEffect(() => {
+      decorationsRef.current = { diff: runDiff, highlight };
+      setNodes(nds => decorateNodes(nds, decorationsRef.current));
+      setEdges(eds => decorateEdges(eds, decorationsRef.current));
+  }, [runDiff, highlight, setNodes, setEdges]);
+
+  useEffect(() => {
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/orgs` : `/api/orgs`;
+      fetch(apiUrl)
+        .then(res => res.json())
+        .then((orgs: string[]) => {
+            setOtherOrgs(orgs);
+            if (orgs.length > 0) setCompareOrg(orgs[0]);
+        })
+        .catch(err => console.error("Failed to load org list", err));
+  }, []);
+
+  // Package directories of the SFDX project, only available when served with --project
+  useEffect(() => {
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/packages` : `/api/packages`;
+      fetch(apiUrl)
+        .then(res => {
+            if (!res.ok) return;
+            return res.json().then((data: { packages: { name: string }[], assignments: Record<string, string[]> }) => {
+                setProjectPackages(data.packages.map(p => p.name));
+                setPackageAssignments(data.assignments);
+            });
+        })
+        .catch(err => console.error("Failed to load project packages", err));
+  }, []);
+
+  const runComparison = () => {
+      setIsComparing(true);
+      const query = `org=${encodeURIComponent(compareOrg)}`;
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/compare?${query}` : `/api/compare?${query}`;
+      fetch(apiUrl)
+        .then(res => res.json().then(data => {
+            if (!res.ok) throw new Error(data.error);
+            setComparison(data);
+            setCompareTab('onlyHere');
+        }))
+        .catch(err => {
+            console.error("Comparison failed", err);
+            alert(`Comparison failed: ${err.message}`);
+        })
+        .finally(() => setIsComparing(false));
+  };
+
+  // Export exactly the nodes and edges on screen, formatted by the server
+  const exportVisibleGraph = () => {
+      setIsExporting(true);
+      const { extension } = EXPORT_FORMATS.find(f => f.format === exportFormat)!;
+      const apiUrl = import.meta.env.DEV ? 'http://localhost:3000/api/export' : '/api/export';
+      fetch(apiUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+              format: exportFormat,
+              nodes: nodes.map(n => ({ id: n.id, name: n.data.label, type: n.data.type, size: n.data.size ?? null, coverage: n.data.coverage ?? null })),
+              edges: edges.map(e => ({ sourceId: e.source, targetId: e.target }))
+          })
+      })
+        .then(async res => {
+            if (!res.ok) throw new Error((await res.json()).error);
+            const link = document.createElement('a');
+            link.href = URL.createObjectURL(await res.blob());
+            link.download = `dependencies.${extension}`;
+            link.click();
+            URL.revokeObjectURL(link.href);
+        })
+        .catch(err => {
+            console.error("Export failed", err);
+            alert(`Export failed: ${err.message}`);
+        })
+        .finally(() => setIsExporting(false));
+  };
+
+  // Replace the selection with a component and its transitive impact, using the edges the endpoint returns
+  const expandToImpact = (node: Node) => {
+      setIsLoading(true);
+      const query = `direction=${impactDirection}&depth=${impactDepth}`;
+      const path = `impact/${encodeURIComponent(node.id)}?${query}`;
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/${path}` : `/api/${path}`;
+      fetch(apiUrl)
+        .then(res => res.json().then(data => {
+            if (!res.ok) throw new Error(data.error);
+            const items = new Map<string, { id: string, name: string, type: string }>();
+            items.set(node.id, { id: node.id, name: node.data.label, type: node.data.type });
+            data.results.forEach((r: ImpactResult) => items.set(r.id, { id: r.id, name: r.name, type: r.type }));
+
+            // Every item gets a stub row so it shows up even without edges, plus the edges it is the source of
+            const results = new Map<string, Record<string, unknown>[]>();
+            items.forEach(item => results.set(item.id, [{
+                id: `stub-${item.id}`,
+                metadataComponentId: item.id,
+                metadataComponentName: item.name,
+                metadataComponentType: item.type,
+                refMetadataComponentId: null,
+                refMetadataComponentName: null,
+                refMetadataComponentType: null
+            }]));
+            data.edges.forEach((e: Record<string, unknown>) => results.get(e.metadataComponentId as string)?.push(e));
+
+            setFetchedResults(results);
+            setSelectedItems(items);
+            setImpactResult({ rootId: node.id, results: data.results });
+            setVisibleTypes(prev => new Set([...prev, ...Array.from(items.values()).map(i => getEffectiveType(i.type, i.name))]));
+        }))
+        .catch(err => {
+            console.error("Impact analysis failed", err);
+            alert(`Impact analysis failed: ${err.message}`);
+        })
+        .finally(() => setIsLoading(false));
+  };
+
+  const findPaths = () => {
+      if (!pathFrom || !pathTo) return;
+      setIsLoading(true);
+      const query = `from=${encodeURIComponent(pathFrom.id)}&to=${encodeURIComponent(pathTo.id)}&k=${pathCount}`;
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/path?${query}` : `/api/path?${query}`;
+      fetch(apiUrl)
+        .then(res => res.json().then((data: PathResult & { error?: string }) => {
+            if (!res.ok) throw new Error(data.error);
+            setPathResult(data);
+            if (data.paths.length === 0) {
+                setHighlight(null);
+                return;
+            }
+            // With "Load All" every component is already in the graph; otherwise add the path to the selection
+            if (selectedItems.size > 0) {
+                const components = new Map(data.paths.flat().map(c => [c.id, c]));
+                setSelectedItems(prev => new Map([...prev, ...components]));
+                setFetchedResults(prev => {
+                    const next = new Map(prev);
+                    components.forEach(c => {
+                        const rows = next.get(c.id) || [{
+                            id: `stub-${c.id}`,
+                            metadataComponentId: c.id,
+                            metadataComponentName: c.name,
+                            metadataComponentType: c.type,
+                            refMetadataComponentId: null,
+                            refMetadataComponentName: null,
+                            refMetadataComponentType: null
+                        }];
+                        next.set(c.id, [...rows, ...data.edges.filter(e => e.metadataComponentId === c.id)]);
+                    });
+                    return next;
+                });
+                setVisibleTypes(prev => new Set([...prev, ...Array.from(components.values()).map(c => getEffectiveType(c.type, c.name))]));
+            }
+            setHighlight(pathHighlight(data.paths));
+        }))
+        .catch(err => {
+            console.error("Path search failed", err);
+            alert(`Path search failed: ${err.message}`);
+        })
+        .finally(() => setIsLoading(false));
+  };
+
+  const clearPath = () => {
+      setPathFrom(null);
+      setPathTo(null);
+      setPathResult(null);
+      setHighlight(null);
+  };
+
+  const describeChange = (node: Node) => {
+      if (!runDiff) return undefined;
+      if (runDiff.addedComponents.some(c => c.id === node.id)) return `Added since run #${diffBaseRun}`;
+      const coverage = runDiff.coverageChanges.find(c => c.id === node.id);
+      const percent = (value: number | null) => value === null ? 'none' : `${value}%`;
+      if (coverage) return `Coverage ${percent(coverage.fromCoverage)} → ${percent(coverage.toCoverage)}`;
+      return undefined;
+  };
+
+  // Reload whatever the graph shows once a sync has finished
+  useEffect(() => {
+      reloadAfterSyncRef.current = () => {
+          loadSyncRuns();
+          if (selectedItems.size > 0) {
+              selectedItems.forEach(item => fetchDependencies(item));
+          } else if (rawData.length > 0) {
+              loadAllDependencies();
+          }
+      };
+  });
+
   const onNodeDoubleClick = (_: React.MouseEvent, node: Node) => {
       const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/open` : `/api/open`;
       fetch(apiUrl, {
@@ -636,6 +1128,9 @@ function AppContent() {
     const globalFilter = debouncedGlobalFilter;
     const minCoverage = debouncedMinCoverage;
     const maxCoverage = debouncedMaxCoverage;
+    const modifiedByFilter = debouncedModifiedByFilter;
+    const namespaceFilter = debouncedNamespaceFilter;
+    const modifiedSince = modifiedWithinDays > 0 ? Date.now() - modifiedWithinDays * 24 * 60 * 60 * 1000 : null;
 
     const newNodes = new Map<string, Node>();
     const newEdges: Edge[] = [];
@@ -720,18 +1215,36 @@ function AppContent() {
         return Math.min(Math.max(v, 20), 80);
     };
 
+    // Packages of a component, only known when the server was given an SFDX project.
+    // One customized in several package directories is colored and grouped by the first.
+    const packagesOf = (id: string) => projectPackages.length > 0 ? (packageAssignments[id] || [NO_PACKAGE]) : undefined;
+    const nodeColors = (type: string, pkg?: string) => ({
+        hue: getColorForType(colorByPackage && pkg ? pkg : type),
+        group: groupByPackage ? pkg : undefined
+    });
+
     rawData.forEach((d: any, index: number) => {
       const sourceType = getEffectiveType(d.metadataComponentType, d.metadataComponentName);
       const targetType = d.refMetadataComponentType
         ? getEffectiveType(d.refMetadataComponentType, d.refMetadataComponentComponentName || d.refMetadataComponentName)
         : null;
       
-      const isVisible = (type: string, name: string, id: string, coverage?: number) => {
+      const isVisible = (type: string, name: string, id: string, coverage: number | undefined, attrs: ComponentAttributes) => {
           if (showCoverageFilter) {
              if (typeof coverage !== 'number') return false; 
              if (coverage < minCoverage || coverage > maxCoverage) return false;
           }
 
+          if (showAttributeFilter) {
+             if (modifiedByFilter && !matchFilter(attrs.lastModifiedByName || '', modifiedByFilter)) return false;
+             if (modifiedSince !== null) {
+                 if (!attrs.lastModifiedDate || new Date(attrs.lastModifiedDate).getTime() < modifiedSince) return false;
+             }
+             if (packageFilter === 'managed' && !isManaged(attrs)) return false;
+             if (packageFilter === 'unmanaged' && isManaged(attrs)) return false;
+             if (namespaceFilter && !matchFilter(attrs.namespacePrefix || '', namespaceFilter)) return false;
+          }
+
           if (showOrphansOnly && hasIncoming.has(id)) return false;
           if (showHighlyConnected) {
              const count = connectionCounts.get(id) || 0;
@@ -747,12 +1260,15 @@ function AppContent() {
           return matchFilter(name, filter);
       };
 
-      const isSourceVisible = d.metadataComponentId ? isVisible(sourceType, d.metadataComponentName, d.metadataComponentId, d.metadataComponentCoverage) : false;
-      const isTargetVisible = targetType && d.refMetadataComponentId ? isVisible(targetType, d.refMetadataComponentComponentName || d.refMetadataComponentName, d.refMetadataComponentId, d.refMetadataComponentCoverage) : false;
+      const sourceAttrs = getAttributes(d, 'metadataComponent');
+      const targetAttrs = getAttributes(d, 'refMetadataComponent');
+      const isSourceVisible = d.metadataComponentId ? isVisible(sourceType, d.metadataComponentName, d.metadataComponentId, d.metadataComponentCoverage, sourceAttrs) : false;
+      const isTargetVisible = targetType && d.refMetadataComponentId ? isVisible(targetType, d.refMetadataComponentComponentName || d.refMetadataComponentName, d.refMetadataComponentId, d.refMetadataComponentCoverage, targetAttrs) : false;
 
       // Create Source Node
       if (isSourceVisible && d.metadataComponentId && !newNodes.has(d.metadataComponentId)) {
         const size = calcSize(d.metadataComponentSize);
+        const pkgs = packagesOf(d.metadataComponentId);
         newNodes.set(d.metadataComponentId, {
           id: d.metadataComponentId,
           position: { x: 0, y: 0 },
@@ -760,9 +1276,14 @@ function AppContent() {
           data: { 
               label: d.metadataComponentName, 
               type: sourceType, 
-              hue: getColorForType(sourceType),
+              ...nodeColors(sourceType, pkgs?.[0]),
+              package: pkgs?.join(', '),
               showLabel: showLabels,
-              coverage: d.metadataComponentCoverage
+              coverage: d.metadataComponentCoverage,
+              risk: d.metadataComponentRisk,
+              shadeByRisk,
+              size: d.metadataComponentSize,
+              attributes: sourceAttrs
           },
           style: { width: size, height: size },
         });
@@ -771,6 +1292,7 @@ function AppContent() {
       // Create Target Node
       if (isTargetVisible && d.refMetadataComponentId && !newNodes.has(d.refMetadataComponentId)) {
         const size = calcSize(d.refMetadataComponentSize);
+        const pkgs = packagesOf(d.refMetadataComponentId);
         newNodes.set(d.refMetadataComponentId, {
           id: d.refMetadataComponentId,
           position: { x: 0, y: 0 },
@@ -778,9 +1300,14 @@ function AppContent() {
           data: { 
               label: d.refMetadataComponentComponentName || d.refMetadataComponentName, 
               type: targetType!, 
-              hue: getColorForType(targetType!),
+              ...nodeColors(targetType!, pkgs?.[0]),
+              package: pkgs?.join(', '),
               showLabel: showLabels,
-              coverage: d.refMetadataComponentCoverage 
+              coverage: d.refMetadataComponentCoverage,
+              risk: d.refMetadataComponentRisk,
+              shadeByRisk,
+              size: d.refMetadataComponentSize,
+              attributes: targetAttrs
           },
           style: { width: size, height: size },
         });
@@ -804,13 +1331,13 @@ function AppContent() {
       newEdges
     );
 
-    setNodes(layoutedNodes);
-    setEdges(newEdges);
+    setNodes(decorateNodes(layoutedNodes, decorationsRef.current));
+    setEdges(decorateEdges(newEdges, decorationsRef.current));
     
     if (layoutedNodes.length > 0) {
        setTimeout(() => fitView({ padding: 0.2, duration: 800 }), 100);
     }
-  }, [rawData, visibleTypes, debouncedTypeFilters, debouncedGlobalFilter, showOrphansOnly, showHighlyConnected, connectionThreshold, showCoverageFilter, debouncedMinCoverage, debouncedMaxCoverage]); // Removed showLabels, handled separately
+  }, [rawData, visibleTypes, debouncedTypeFilters, debouncedGlobalFilter, showOrphansOnly, showHighlyConnected, connectionThreshold, showCoverageFilter, debouncedMinCoverage, debouncedMaxCoverage, showAttributeFilter, debouncedModifiedByFilter, modifiedWithinDays, packageFilter, debouncedNamespaceFilter, projectPackages, packageAssignments, colorByPackage, groupByPackage]); // Removed showLabels, handled separately
 
   // Separate effect to update labels without re-layout
   useEffect(() => {
@@ -824,6 +1351,12 @@ function AppContent() {
     );
   }, [showLabels]);
 
+  useEffect(() => {
+    setNodes((nds) =>
+      nds.map((node) => node.type === 'dataNode' ? { ...node, data: { ...node.data, shadeByRisk } } : node)
+    );
+  }, [shadeByRisk, setNodes]);
+
   const toggleType = (type: string) => {
     setVisibleTypes((prev) => {
       const next = new Set(prev);
@@ -846,19 +1379,170 @@ function AppContent() {
 
   const runAnalysis = () => {
     setIsAnalysisRunning(true);
-    // Defer to next tick to allow UI to update
-    setTimeout(() => {
-        const results = findClusters(rawData);
-        setClusters(results);
-        setIsAnalysisRunning(false);
-        setShowAnalysisPanel(true);
-    }, 100);
+    const params = new URLSearchParams({ excludeStandard: String(clusterExcludeStandard) });
+    if (clusterHubDegree) params.set('hubDegree', clusterHubDegree);
+    const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/communities?${params}` : `/api/communities?${params}`;
+    fetch(apiUrl)
+      .then(res => res.json().then(data => {
+          if (!res.ok) throw new Error(data.error);
+          setClusterResult(data);
+          setShowCyclesPanel(false);
+          setShowUnusedPanel(false);
+          setShowRulesPanel(false);
+          setShowRiskPanel(false);
+          setShowAnalysisPanel(true);
+      }))
+      .catch(err => {
+          console.error("Cluster analysis failed", err);
+          alert(`Cluster analysis failed: ${err.message}`);
+      })
+      .finally(() => setIsAnalysisRunning(false));
   };
   
+  const findCycles = () => {
+      setIsFindingCycles(true);
+      const query = cyclesApexOnly ? '?types=ApexClass,ApexTrigger' : '';
+      const apiUrl = import.meta.env.DEV ? `http://localhost:3000/api/cycles${query}` : `/api/cycles${query}`;
+      fetch(apiUrl)
+        .then(res => res.json().then(data => {
+            if (!res.ok) throw new Error(data.error);
+            setCycles(data);
+            setShowAnalysisPanel(false);
+            setShowUnusedPanel(false);
+            setShowRulesPanel(false);
+            setShowRiskPanel(false);
+            setShowCyclesPanel(true);
+        }))
+        .catch(err => {
+            console.error("Cycle detection failed", err);
+            alert(`Cycle detection failed: ${err.message}`);
+        })
+        .finally(() => setIsFindingCycles(false));
+  };
+
+  const checkRules = () => {
+      setIsCheckingRules(true);
+      const apiUrl = import.meta.env.DEV ? 'http://localhost:3000/api/rules' : '/api/rules';
+      fetch(apiUrl)
+        .then(res => res.json().then(data => {
+            if (!res.ok) throw new Error(data.error);
+            setRuleCheck(data);
+            setShowAnalysisPanel(false);
+            setShowCyclesPanel(false);
+            setShowUnusedPanel(false);
+            setShowRiskPanel(false);
+            setShowRulesPanel(true);
+        }))
+        .catch(err => {
+            console.error("Rule check failed", err);
+            alert(`Rule check failed: ${err.message}`);
+        })
+        .finally(() => setIsCheckingRules(false));
+  };
+
+  const rankRisk = () => {
+      setIsRankingRisk(true);
+      const apiUrl = import.meta.env.DEV ? 'http://localhost:3000/api/risk?limit=100' : '/api/risk?limit=100';
+      fetch(apiUrl)
+        .then(res => res.json().then(data => {
+            if (!res.ok) throw new Error(data.error);
+            setRiskRanking(data);
+            setShowAnalysisPanel(false);
+            setShowCyclesPanel(false);
+            setShowUnusedPanel(false);
+            setShowRulesPanel(false);
+            setShowRiskPanel(true);
+        }))
+        .catch(err => {
+            console.error("Risk ranking failed", err);
+            alert(`Risk ranking failed: ${err.message}`);
+        })
+        .finally(() => setIsRankingRisk(false));
+  };
+
+  const findUnused = () => {
+      setIsFindingUnused(true);
+      const apiUrl = import.meta.env.DEV ? 'http://localhost:3000/api/unused' : '/api/unused';
+      fetch(apiUrl)
+        .then(res => res.json().then(data => {
+            if (!res.ok) throw new Error(data.error);
+            setUnusedReport(data);
+            setShowAnalysisPanel(false);
+            setShowCyclesPanel(false);
+            setShowRulesPanel(false);
+            setShowRiskPanel(false);
+            setShowUnusedPanel(true);
+        }))
+        .catch(err => {
+            console.error("Unused analysis failed", err);
+            alert(`Unused analysis failed: ${err.message}`);
+        })
+        .finally(() => setIsFindingUnused(false));
+  };
+
+  // Clicking the sorted column flips its direction, another column starts descending
+  const sortUnusedBy = (key: UnusedSortKey) => {
+      setUnusedSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : key === 'name' || key === 'type' }));
+  };
+
+  // Show only the members of a cycle, with the edges that close it highlighted
+  const selectCycle = (cycle: DependencyCycle) => {
+      const items = new Map(cycle.members.map(m => [m.id, m]));
+      const results = new Map<string, Record<string, unknown>[]>();
+      cycle.members.forEach(m => results.set(m.id, [
+          {
+              id: `stub-${m.id}`,
+              metadataComponentId: m.id,
+              metadataComponentName: m.name,
+              metadataComponentType: m.type,
+              refMetadataComponentId: null,
+              refMetadataComponentName: null,
+              refMetadataComponentType: null
+          },
+          ...cycle.rows.filter(r => r.metadataComponentId === m.id)
+      ]));
+      setFetchedResults(results);
+      setSelectedItems(items);
+      setVisibleTypes(prev => new Set([...prev, ...cycle.members.map(m => getEffectiveType(m.type, m.name))]));
+      setHighlight({
+          nodeIds: new Set(cycle.members.map(m => m.id)),
+          edgeKeys: new Set(cycle.edges.map(e => edgeKey(e.sourceId, e.targetId))),
+          color: CYCLE_COLOR
+      });
+  };
+
+  // Show the components on both ends of the violations, with the offending edges highlighted
+  const selectViolations = (violations: RuleViolation[]) => {
+      const members = new Map<string, { id: string, name: string, type: string }>();
+      violations.forEach(v => { members.set(v.source.id, v.source); members.set(v.target.id, v.target); });
+      const results = new Map<string, Record<string, unknown>[]>();
+      members.forEach(m => results.set(m.id, [
+          {
+              id: `stub-${m.id}`,
+              metadataComponentId: m.id,
+              metadataComponentName: m.name,
+              metadataComponentType: m.type,
+              refMetadataComponentId: null,
+              refMetadataComponentName: null,
+              refMetadataComponentType: null
+          },
+          ...violations.filter(v => v.source.id === m.id && v.row).map(v => v.row!)
+      ]));
+      setFetchedResults(results);
+      setSelectedItems(new Map(members));
+      setVisibleTypes(prev => new Set([...prev, ...Array.from(members.values()).map(m => getEffectiveType(m.type, m.name))]));
+      setHighlight({
+          nodeIds: new Set(members.keys()),
+          edgeKeys: new Set(violations.map(v => edgeKey(v.source.id, v.target.id))),
+          color: RULE_COLOR
+      });
+  };
+
   const selectCluster = (cluster: Cluster) => {
       setSelectedItems(new Map()); // clear previous
+      setHighlight(null);
       const nextSelected = new Map();
-      cluster.nodes.forEach(n => {
+      cluster.members.forEach(n => {
          const item = { id: n.id, name: n.name, type: n.type };
          // Create a faux item to select
          nextSelected.set(n.id, item);
@@ -880,6 +1564,8 @@ function AppContent() {
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onNodeDoubleClick={onNodeDoubleClick}
+        onNodeClick={(_, node) => setDetailsNode(node)}
+        onPaneClick={() => setDetailsNode(null)}
         onNodeDragStart={onNodeDragStart}
         onNodeDrag={onNodeDrag}
         onNodeDragStop={onNodeDragStop}
@@ -919,6 +1605,57 @@ function AppContent() {
                      Load All (DB)
                  </button>
             </div>            
+            {syncAvailable && (
+                <div style={{ marginBottom: '10px', fontSize: '12px' }}>
+                    <div style={{ display: 'flex', gap: '5px' }}>
+                        <select
+                            value={syncMode}
+                            onChange={(e) => setSyncMode(e.target.value as SyncMode)}
+                            disabled={syncStatus.status === 'running'}
+                            style={{ flex: 1, padding: '4px', fontSize: '12px', border: '1px solid #ccc', borderRadius: '4px' }}
+                        >
+                            <option value="incremental">Incremental sync</option>
+                            <option value="full">Full sync</option>
+                            <option value="retry-failed">Retry failed</option>
+                        </select>
+                        <button
+                            onClick={startSync}
+                            disabled={syncStatus.status === 'running'}
+                            style={{
+                                background: syncStatus.status === 'running' ? '#ccc' : '#0176d3',
+                                color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px',
+                                cursor: syncStatus.status === 'running' ? 'not-allowed' : 'pointer', fontSize: '12px'
+                            }}
+                        >
+                            {syncStatus.status === 'running' ? 'Syncing...' : 'Sync Now'}
+                        </button>
+                    </div>
+                    {syncStatus.status !== 'idle' && (
+                        <div style={{ marginTop: '5px' }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', color: '#666', fontSize: '11px' }}>
+                                <span>{syncStatus.phase ? SYNC_PHASE_LABELS[syncStatus.phase] : 'Starting'}</span>
+                                <span>{syncStatus.percent ?? 0}%</span>
+                            </div>
+                            <div style={{ height: '6px', background: '#eee', borderRadius: '3px', overflow: 'hidden' }}>
+                                <div style={{
+                                    width: `${syncStatus.percent ?? 0}%`, height: '100%',
+                                    background: syncStatus.status === 'failed' ? '#e53935' : syncStatus.status === 'done' ? '#43a047' : '#0176d3',
+                                    transition: 'width 0.3s'
+                                }} />
+                            </div>
+                            {syncStatus.message && <div style={{ marginTop: '3px', fontSize: '11px', color: syncStatus.status === 'failed' ? '#e53935' : '#666' }}>{syncStatus.message}</div>}
+                            {syncStatus.errors.length > 0 && (
+                                <details style={{ marginTop: '3px', fontSize: '11px', color: '#e53935' }}>
+                                    <summary>{syncStatus.errors.length} errors</summary>
+                                    <div style={{ maxHeight: '80px', overflowY: 'auto' }}>
+                                        {syncStatus.errors.map((error, i) => <div key={i}>{error}</div>)}
+                                    </div>
+                                </details>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
             <div style={{ marginBottom: '10px' }}>
                  <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
                    <input 
@@ -929,6 +1666,24 @@ function AppContent() {
                    />
                    Show Labels
                  </label>
+                 <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+                   <input
+                     type="checkbox"
+                     checked={shadeByRisk}
+                     onChange={(e) => setShadeByRisk(e.target.checked)}
+                     style={{ marginRight: '8px' }}
+                   />
+                   Shade by Risk
+                 </label>
+                 {shadeByRisk && (
+                   <div style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '11px', color: '#666', paddingLeft: '22px' }}>
+                     <span>low</span>
+                     <span style={{ display: 'inline-block', width: '80px', height: '8px', borderRadius: '2px', background: `linear-gradient(to right, ${riskColor(0)}, ${riskColor(50)}, ${riskColor(100)})` }}></span>
+                     <span>high</span>
+                     <span style={{ display: 'inline-block', width: '8px', height: '8px', borderRadius: '2px', background: riskColor(null), marginLeft: '6px' }}></span>
+                     <span>not scored</span>
+                   </div>
+                 )}
             </div>
             <div 
                 style={{ fontWeight: 'bold', marginBottom: '5px', display: 'flex', justifyContent: 'space-between', alignItems: 'center', cursor: 'pointer' }}
@@ -966,6 +1721,30 @@ function AppContent() {
                 </div>
             )}
 
+            {searchTerm.length > 1 && searchFacets && (
+                <div style={{ fontSize: '11px', marginBottom: '5px' }}>
+                    {(Object.keys(SEARCH_FACET_LABELS) as SearchFacet[]).filter(facet => searchFacets[facet].length > 1 || facetSelection[facet].length > 0).map(facet => (
+                        <div key={facet} style={{ display: 'flex', flexWrap: 'wrap', gap: '3px', alignItems: 'center', marginBottom: '3px' }}>
+                            <span style={{ color: '#666', marginRight: '2px' }}>{SEARCH_FACET_LABELS[facet]}:</span>
+                            {searchFacets[facet].map(({ value, count }) => {
+                                const active = facetSelection[facet].includes(value);
+                                return (
+                                    <button key={value} onClick={() => toggleFacet(facet, value)} style={{
+                                        padding: '1px 6px', fontSize: '11px', borderRadius: '10px', cursor: 'pointer',
+                                        border: '1px solid #0176d3',
+                                        background: active ? '#0176d3' : 'white',
+                                        color: active ? 'white' : '#0176d3'
+                                    }}>
+                                        {facetValueLabel(facet, value)} ({count})
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    ))}
+                    <div style={{ color: '#666' }}>{searchTotal} matches</div>
+                </div>
+            )}
+
             {searchTerm.length > 1 && searchResults.length > 0 && (
                 <ul style={{ listStyle: 'none', padding: 0, margin: '5px 0 0 0', maxHeight: '300px', overflowY: 'auto', border: '1px solid #eee', background: 'white', color: 'black' }}>
                     {searchResults.map((res: any) => (
@@ -988,6 +1767,13 @@ function AppContent() {
                             </div>
                         </li>
                     ))}
+                    {searchResults.length < searchTotal && (
+                        <li style={{ padding: '6px', textAlign: 'center' }}>
+                            <button onClick={loadMoreSearchResults} style={{ background: 'none', border: 'none', color: '#0176d3', cursor: 'pointer', textDecoration: 'underline', fontSize: '12px' }}>
+                                Show more ({searchTotal - searchResults.length} left)
+                            </button>
+                        </li>
+                    )}
                 </ul>
             )}
             </>
@@ -1017,7 +1803,7 @@ function AppContent() {
           <div style={{ paddingBottom: '10px', marginBottom: '5px', borderBottom: '1px solid #eee' }}>
              <button 
                 onClick={runAnalysis}
-                disabled={isAnalysisRunning || rawData.length === 0}
+                disabled={isAnalysisRunning}
                 style={{
                   width: '100%',
                   padding: '6px',
@@ -1029,12 +1815,86 @@ function AppContent() {
                   fontWeight: 500
                 }}
              >
-                {isAnalysisRunning ? 'Running Analysis...' : 'Find Island Clusters'}
+                {isAnalysisRunning ? 'Running Analysis...' : 'Propose Modules'}
+             </button>
+             <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontSize: '11px', marginTop: '3px' }}>
+                <input type="checkbox" checked={clusterExcludeStandard} onChange={(e) => setClusterExcludeStandard(e.target.checked)} style={{ marginRight: '6px' }} />
+                Exclude standard objects
+             </label>
+             <label style={{ display: 'flex', alignItems: 'center', fontSize: '11px', marginTop: '3px' }}>
+                Exclude hubs with more than
+                <input
+                    type="number"
+                    min="1"
+                    placeholder="-"
+                    value={clusterHubDegree}
+                    onChange={(e) => setClusterHubDegree(e.target.value)}
+                    style={{ width: '45px', margin: '0 4px', padding: '1px', fontSize: '11px', border: '1px solid #ccc', borderRadius: '3px' }}
+                />
+                connections
+             </label>
+             {clusterResult && (
+                <div style={{ marginTop: '5px', fontSize: '12px', color: '#666', display: 'flex', justifyContent: 'space-between' }}>
+                    <span>Found {clusterResult.communities.length} modules</span>
+                    <button onClick={() => { setShowCyclesPanel(false); setShowUnusedPanel(false); setShowRulesPanel(false); setShowRiskPanel(false); setShowAnalysisPanel(true); }} style={{ background:'none', border:'none', color:'#0176d3', cursor:'pointer', textDecoration:'underline', padding:0 }}>View Results</button>
+                </div>
+             )}
+             <div style={{ display: 'flex', gap: '5px', marginTop: '5px' }}>
+                <button
+                    onClick={findCycles}
+                    disabled={isFindingCycles}
+                    style={{ flex: 1, padding: '6px', background: CYCLE_COLOR, color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontWeight: 500 }}
+                >
+                    {isFindingCycles ? 'Searching...' : 'Find Circular Dependencies'}
+                </button>
+             </div>
+             <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontSize: '11px', marginTop: '3px' }}>
+                <input type="checkbox" checked={cyclesApexOnly} onChange={(e) => setCyclesApexOnly(e.target.checked)} style={{ marginRight: '6px' }} />
+                Only Apex classes and triggers
+             </label>
+             {cycles && (
+                <div style={{ marginTop: '5px', fontSize: '12px', color: '#666', display: 'flex', justifyContent: 'space-between' }}>
+                    <span>Found {cycles.length} cycles</span>
+                    <button onClick={() => { setShowAnalysisPanel(false); setShowUnusedPanel(false); setShowRulesPanel(false); setShowRiskPanel(false); setShowCyclesPanel(true); }} style={{ background:'none', border:'none', color:'#0176d3', cursor:'pointer', textDecoration:'underline', padding:0 }}>View Results</button>
+                </div>
+             )}
+             <button
+                onClick={findUnused}
+                disabled={isFindingUnused}
+                style={{ width: '100%', marginTop: '5px', padding: '6px', background: UNUSED_COLOR, color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontWeight: 500 }}
+             >
+                {isFindingUnused ? 'Analyzing...' : 'Find Unused Components'}
+             </button>
+             {unusedReport && (
+                <div style={{ marginTop: '5px', fontSize: '12px', color: '#666', display: 'flex', justifyContent: 'space-between' }}>
+                    <span>Found {unusedReport.candidates.length} candidates</span>
+                    <button onClick={() => { setShowAnalysisPanel(false); setShowCyclesPanel(false); setShowRulesPanel(false); setShowRiskPanel(false); setShowUnusedPanel(true); }} style={{ background:'none', border:'none', color:'#0176d3', cursor:'pointer', textDecoration:'underline', padding:0 }}>View Results</button>
+                </div>
+             )}
+             <button
+                onClick={checkRules}
+                disabled={isCheckingRules}
+                style={{ width: '100%', marginTop: '5px', padding: '6px', background: RULE_COLOR, color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontWeight: 500 }}
+             >
+                {isCheckingRules ? 'Checking...' : 'Check Architecture Rules'}
              </button>
-             {clusters.length > 0 && (
+             {ruleCheck && (
                 <div style={{ marginTop: '5px', fontSize: '12px', color: '#666', display: 'flex', justifyContent: 'space-between' }}>
-                    <span>Found {clusters.filter(c => c.size > 1).length} groups</span>
-                    <button onClick={() => setShowAnalysisPanel(true)} style={{ background:'none', border:'none', color:'#0176d3', cursor:'pointer', textDecoration:'underline', padding:0 }}>View Results</button>
+                    <span>Found {ruleCheck.violations.length} violations</span>
+                    <button onClick={() => { setShowAnalysisPanel(false); setShowCyclesPanel(false); setShowUnusedPanel(false); setShowRiskPanel(false); setShowRulesPanel(true); }} style={{ background:'none', border:'none', color:'#0176d3', cursor:'pointer', textDecoration:'underline', padding:0 }}>View Results</button>
+                </div>
+             )}
+             <button
+                onClick={rankRisk}
+                disabled={isRankingRisk}
+                style={{ width: '100%', marginTop: '5px', padding: '6px', background: RISK_COLOR, color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontWeight: 500 }}
+             >
+                {isRankingRisk ? 'Ranking...' : 'Show Riskiest Components'}
+             </button>
+             {riskRanking && (
+                <div style={{ marginTop: '5px', fontSize: '12px', color: '#666', display: 'flex', justifyContent: 'space-between' }}>
+                    <span>Ranked {riskRanking.length} components</span>
+                    <button onClick={() => { setShowAnalysisPanel(false); setShowCyclesPanel(false); setShowUnusedPanel(false); setShowRulesPanel(false); setShowRiskPanel(true); }} style={{ background:'none', border:'none', color:'#0176d3', cursor:'pointer', textDecoration:'underline', padding:0 }}>View Results</button>
                 </div>
              )}
           </div>
@@ -1093,6 +1953,131 @@ function AppContent() {
                 <span>&lt; 75%</span>
              </div>
           </div>
+          <div style={{ marginBottom: '5px', borderBottom: '1px solid #eee', paddingBottom: '5px' }}>
+             <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontWeight: '600', fontSize: '12px', marginBottom: '4px' }}>
+                <input 
+                    type="checkbox" 
+                    checked={showAttributeFilter} 
+                    onChange={(e) => setShowAttributeFilter(e.target.checked)}
+                    style={{ marginRight: '6px' }}
+                />
+                Filter by Attributes
+             </label>
+
+             {showAttributeFilter && (
+                <div style={{ paddingLeft: '20px', display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '11px' }}>
+                    <input 
+                        type="text"
+                        placeholder="Modified by (* for wildcard)"
+                        value={modifiedByFilter}
+                        onChange={(e) => setModifiedByFilter(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        style={{ padding: '2px', fontSize: '11px', border: '1px solid #ccc', borderRadius: '3px' }}
+                    />
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+                        <span>Modified in last</span>
+                        <input 
+                            type="number" min="0"
+                            value={modifiedWithinDays} 
+                            onChange={(e) => setModifiedWithinDays(Math.max(0, Number(e.target.value)))}
+                            style={{ width: '45px', padding: '2px', fontSize: '11px', border: '1px solid #ccc' }}
+                        />
+                        <span>days (0 = any)</span>
+                    </div>
+                    <select
+                        value={packageFilter}
+                        onChange={(e) => setPackageFilter(e.target.value as 'all' | 'managed' | 'unmanaged')}
+                        style={{ padding: '2px', fontSize: '11px', border: '1px solid #ccc' }}
+                    >
+                        <option value="all">Managed and unmanaged</option>
+                        <option value="managed">Managed package only</option>
+                        <option value="unmanaged">Unmanaged only</option>
+                    </select>
+                    <input 
+                        type="text"
+                        placeholder="Namespace (* for wildcard)"
+                        value={namespaceFilter}
+                        onChange={(e) => setNamespaceFilter(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        style={{ padding: '2px', fontSize: '11px', border: '1px solid #ccc', borderRadius: '3px' }}
+                    />
+                </div>
+             )}
+          </div>
+          <div style={{ marginBottom: '5px', borderBottom: '1px solid #eee', paddingBottom: '5px', fontSize: '11px' }}>
+             <div style={{ fontWeight: '600', fontSize: '12px', marginBottom: '4px' }}>Highlight Changes</div>
+             <select
+                 value={diffBaseRun ?? ''}
+                 onChange={(e) => {
+                     setDiffBaseRun(e.target.value ? Number(e.target.value) : null);
+                     if (!e.target.value) setRunDiff(null);
+                 }}
+                 disabled={syncRuns.length < 2}
+                 style={{ width: '100%', padding: '2px', fontSize: '11px', border: '1px solid #ccc' }}
+             >
+                 <option value="">{syncRuns.length < 2 ? 'Needs at least two sync runs' : 'Off'}</option>
+                 {syncRuns.slice(0, -1).reverse().map(run => (
+                     <option key={run.id} value={run.id}>Since run #{run.id} ({run.mode}, {new Date(run.finishedAt).toLocaleString()})</option>
+                 ))}
+             </select>
+             {runDiff && (
+                <div style={{ marginTop: '4px' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', marginBottom: '2px' }}>
+                        <div style={{ width: '12px', height: '12px', border: `3px solid ${CHANGE_COLORS.added}`, borderRadius: '50%', marginRight: '6px' }}></div>
+                        <span>{runDiff.addedComponents.length} added, {runDiff.addedEdges.length} new dependencies</span>
+                    </div>
+                    <div style={{ display: 'flex', alignItems: 'center', marginBottom: '2px' }}>
+                        <div style={{ width: '12px', height: '12px', border: `3px solid ${CHANGE_COLORS.coverage}`, borderRadius: '50%', marginRight: '6px' }}></div>
+                        <span>{runDiff.coverageChanges.length} coverage changes</span>
+                    </div>
+                    {runDiff.removedComponents.length > 0 && (
+                        <div style={{ color: '#666' }} title={runDiff.removedComponents.map(c => `${c.name} (${c.type})`).join('\n')}>
+                            {runDiff.removedComponents.length} removed, {runDiff.removedEdges.length} dependencies removed (hover for names)
+                        </div>
+                    )}
+                </div>
+             )}
+          </div>
+          <div style={{ marginBottom: '5px', borderBottom: '1px solid #eee', paddingBottom: '5px', fontSize: '11px' }}>
+             <div style={{ fontWeight: '600', fontSize: '12px', marginBottom: '4px' }}>Compare with Org</div>
+             <div style={{ display: 'flex', gap: '5px' }}>
+                 <select
+                     value={compareOrg}
+                     onChange={(e) => setCompareOrg(e.target.value)}
+                     disabled={otherOrgs.length === 0}
+                     style={{ flex: 1, padding: '2px', fontSize: '11px', border: '1px solid #ccc' }}
+                 >
+                     {otherOrgs.length === 0 && <option value="">No other org databases</option>}
+                     {otherOrgs.map(org => <option key={org} value={org}>{org}</option>)}
+                 </select>
+                 <button
+                     onClick={runComparison}
+                     disabled={!compareOrg || isComparing}
+                     style={{ padding: '2px 8px', fontSize: '11px', background: '#0176d3', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer' }}
+                 >
+                     {isComparing ? '...' : 'Compare'}
+                 </button>
+             </div>
+          </div>
+          <div style={{ marginBottom: '5px', borderBottom: '1px solid #eee', paddingBottom: '5px', fontSize: '11px' }}>
+             <div style={{ fontWeight: '600', fontSize: '12px', marginBottom: '4px' }}>Export Visible Graph</div>
+             <div style={{ display: 'flex', gap: '5px' }}>
+                 <select
+                     value={exportFormat}
+                     onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                     style={{ flex: 1, padding: '2px', fontSize: '11px', border: '1px solid #ccc' }}
+                 >
+                     {EXPORT_FORMATS.map(f => <option key={f.format} value={f.format}>{f.label}</option>)}
+                 </select>
+                 <button
+                     onClick={exportVisibleGraph}
+                     disabled={nodes.length === 0 || isExporting}
+                     style={{ padding: '2px 8px', fontSize: '11px', background: '#0176d3', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer' }}
+                 >
+                     {isExporting ? '...' : 'Export'}
+                 </button>
+             </div>
+          </div>
           <div style={{ marginBottom: '5px', borderBottom: '1px solid #eee', paddingBottom: '5px' }}>
              <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', flex: 1, fontWeight: '500', marginBottom: showHighlyConnected ? '4px' : '0' }}>
                 <input 
@@ -1117,6 +2102,45 @@ function AppContent() {
                 </div>
             )}
           </div>
+          {projectPackages.length > 0 && (
+            <div style={{ marginBottom: '5px', borderBottom: '1px solid #eee', paddingBottom: '5px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontWeight: '500' }}>
+                  <input
+                      type="checkbox"
+                      checked={colorByPackage}
+                      onChange={(e) => setColorByPackage(e.target.checked)}
+                      style={{ marginRight: '6px' }}
+                  />
+                  Color by Package
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontWeight: '500' }}>
+                  <input
+                      type="checkbox"
+                      checked={groupByPackage}
+                      onChange={(e) => setGroupByPackage(e.target.checked)}
+                      style={{ marginRight: '6px' }}
+                  />
+                  Group by Package
+              </label>
+              {colorByPackage && (
+                <div style={{ paddingLeft: '24px', fontSize: '11px' }}>
+                  {[...projectPackages, NO_PACKAGE].map(pkg => (
+                    <div key={pkg} style={{ display: 'flex', alignItems: 'center' }}>
+                      <span style={{
+                          display: 'inline-block',
+                          width: '10px',
+                          height: '10px',
+                          backgroundColor: `hsl(${getColorForType(pkg)}, 60%, 60%)`,
+                          borderRadius: '2px',
+                          marginRight: '6px'
+                      }}></span>
+                      {pkg}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           <div className="legend-item" style={{ fontWeight: 'bold', borderBottom: '1px solid #ccc', paddingBottom: '5px', marginBottom: '5px' }}>
             <input 
               type="checkbox" 
@@ -1175,6 +2199,420 @@ function AppContent() {
           )}
         </Panel>
 
+        {detailsNode && (
+            <Panel position="bottom-left" style={{ background: 'white', color: 'black', padding: '10px', borderRadius: '5px', boxShadow: '0 0 10px rgba(0,0,0,0.1)', maxWidth: '350px', fontSize: '12px' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+                    <span style={{ fontWeight: 'bold', fontSize: '14px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{detailsNode.data.label}</span>
+                    <button onClick={() => setDetailsNode(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px', color: '#666' }}>&times;</button>
+                </div>
+                <table style={{ borderCollapse: 'collapse' }}>
+                    <tbody>
+                        {([
+                            ['Type', detailsNode.data.type],
+                            ['Package', detailsNode.data.package],
+                            ['ID', detailsNode.id],
+                            ['Size', detailsNode.data.size],
+                            ['Coverage', typeof detailsNode.data.coverage === 'number' ? `${detailsNode.data.coverage}%` : undefined],
+                            ['Risk', typeof detailsNode.data.risk === 'number' ? detailsNode.data.risk.toFixed(1) : undefined],
+                            ['Change', describeChange(detailsNode)],
+                            ['Namespace', detailsNode.data.attributes?.namespacePrefix],
+                            ['Manageable State', detailsNode.data.attributes?.manageableState],
+                            ['Created By', detailsNode.data.attributes?.createdByName],
+                            ['Created', detailsNode.data.attributes?.createdDate],
+                            ['Last Modified By', detailsNode.data.attributes?.lastModifiedByName],
+                            ['Last Modified', detailsNode.data.attributes?.lastModifiedDate],
+                            ['File', detailsNode.data.attributes?.fileName]
+                        ] as [string, string | number | undefined][]).filter(([, value]) => value !== undefined && value !== null && value !== '').map(([label, value]) => (
+                            <tr key={label}>
+                                <td style={{ color: '#666', paddingRight: '10px', verticalAlign: 'top' }}>{label}</td>
+                                <td style={{ wordBreak: 'break-all' }}>{value}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div style={{ marginTop: '8px', paddingTop: '6px', borderTop: '1px solid #eee', display: 'flex', alignItems: 'center', gap: '5px' }}>
+                    <span style={{ fontWeight: 600 }}>Impact</span>
+                    <select
+                        value={impactDirection}
+                        onChange={(e) => setImpactDirection(e.target.value as ImpactDirection)}
+                        style={{ padding: '2px', fontSize: '11px', border: '1px solid #ccc' }}
+                    >
+                        <option value="up">Upstream (dependents)</option>
+                        <option value="down">Downstream (dependencies)</option>
+                        <option value="both">Both</option>
+                    </select>
+                    <input
+                        type="number" min="1" max="20"
+                        value={impactDepth}
+                        onChange={(e) => setImpactDepth(Math.min(20, Math.max(1, Number(e.target.value))))}
+                        title="Hops"
+                        style={{ width: '40px', padding: '2px', fontSize: '11px', border: '1px solid #ccc' }}
+                    />
+                    <button
+                        onClick={() => expandToImpact(detailsNode)}
+                        style={{ background: '#0176d3', color: 'white', border: 'none', borderRadius: '4px', padding: '3px 8px', cursor: 'pointer', fontSize: '11px' }}
+                    >
+                        Expand Selection
+                    </button>
+                </div>
+                <div style={{ marginTop: '6px', display: 'flex', alignItems: 'center', gap: '5px' }}>
+                    <span style={{ fontWeight: 600 }}>Path</span>
+                    <button
+                        onClick={() => { setPathFrom({ id: detailsNode.id, name: detailsNode.data.label, type: detailsNode.data.type }); setPathResult(null); }}
+                        style={{ background: 'white', color: PATH_COLOR, border: `1px solid ${PATH_COLOR}`, borderRadius: '4px', padding: '2px 8px', cursor: 'pointer', fontSize: '11px' }}
+                    >
+                        From here
+                    </button>
+                    <button
+                        onClick={() => { setPathTo({ id: detailsNode.id, name: detailsNode.data.label, type: detailsNode.data.type }); setPathResult(null); }}
+                        style={{ background: 'white', color: PATH_COLOR, border: `1px solid ${PATH_COLOR}`, borderRadius: '4px', padding: '2px 8px', cursor: 'pointer', fontSize: '11px' }}
+                    >
+                        To here
+                    </button>
+                </div>
+                {impactResult && impactResult.rootId === detailsNode.id && (
+                    <div style={{ marginTop: '5px', maxHeight: '120px', overflowY: 'auto' }}>
+                        <div style={{ color: '#666', marginBottom: '2px' }}>
+                            {impactResult.results.filter(r => r.direction === 'up').length} dependents, {impactResult.results.filter(r => r.direction === 'down').length} dependencies
+                        </div>
+                        {impactResult.results.map(r => (
+                            <div key={`${r.direction}-${r.id}`} title={r.path.map(p => p.name).join(r.direction === 'up' ? ' ← ' : ' → ')} style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                <span style={{ color: '#666' }}>{r.direction === 'up' ? '↑' : '↓'}{r.distance}</span> {r.name} <span style={{ color: '#999', fontSize: '10px' }}>{r.type}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </Panel>
+        )}
+
+        {(pathFrom || pathTo) && (
+            <Panel position="top-center" style={{ background: 'white', color: 'black', padding: '8px 10px', borderRadius: '5px', boxShadow: '0 0 10px rgba(0,0,0,0.1)', fontSize: '12px', maxWidth: '500px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <span style={{ fontWeight: 600, color: PATH_COLOR }}>Path</span>
+                    <span>{pathFrom ? pathFrom.name : <i style={{ color: '#999' }}>pick "From here"</i>}</span>
+                    <span>→</span>
+                    <span>{pathTo ? pathTo.name : <i style={{ color: '#999' }}>pick "To here"</i>}</span>
+                    <input
+                        type="number" min="1" max="10"
+                        value={pathCount}
+                        onChange={(e) => setPathCount(Math.min(10, Math.max(1, Number(e.target.value))))}
+                        title="Number of shortest paths"
+                        style={{ width: '36px', padding: '2px', fontSize: '11px', border: '1px solid #ccc' }}
+                    />
+                    <button
+                        onClick={findPaths}
+                        disabled={!pathFrom || !pathTo}
+                        style={{ background: !pathFrom || !pathTo ? '#ccc' : PATH_COLOR, color: 'white', border: 'none', borderRadius: '4px', padding: '3px 8px', cursor: 'pointer', fontSize: '11px' }}
+                    >
+                        Find
+                    </button>
+                    <button onClick={clearPath} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px', color: '#666' }}>&times;</button>
+                </div>
+                {pathResult && (
+                    <div style={{ marginTop: '6px', maxHeight: '150px', overflowY: 'auto' }}>
+                        {pathResult.paths.length === 0 && <div style={{ color: '#666' }}>No dependency path in either direction.</div>}
+                        {pathResult.reversed && <div style={{ color: '#666', marginBottom: '3px' }}>No path this way round; {pathTo?.name} depends on {pathFrom?.name} instead:</div>}
+                        {pathResult.paths.map((path, i) => (
+                            <div
+                                key={i}
+                                onClick={() => setHighlight(pathHighlight([path]))}
+                                style={{ cursor: 'pointer', padding: '2px 0' }}
+                                title="Highlight only this path"
+                            >
+                                <span style={{ color: '#666' }}>{path.length - 1} hops:</span> {path.map(c => c.name).join(' → ')}
+                            </div>
+                        ))}
+                        {pathResult.paths.length > 1 && (
+                            <button onClick={() => setHighlight(pathHighlight(pathResult.paths))} style={{ background: 'none', border: 'none', color: '#0176d3', cursor: 'pointer', textDecoration: 'underline', padding: 0, fontSize: '11px' }}>Highlight all</button>
+                        )}
+                    </div>
+                )}
+            </Panel>
+        )}
+
+        {comparison && (
+            <Panel position="bottom-right" style={{ background: 'white', color: 'black', padding: '10px', borderRadius: '8px', boxShadow: '0 4px 12px rgba(0,0,0,0.15)', width: '450px', maxHeight: '400px', display: 'flex', flexDirection: 'column', fontSize: '12px' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px', borderBottom: '1px solid #eee', paddingBottom: '8px' }}>
+                    <span style={{ fontWeight: 'bold', fontSize: '14px' }}>{comparison.left} vs {comparison.right}</span>
+                    <button onClick={() => setComparison(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', color: '#666' }}>&times;</button>
+                </div>
+                <div style={{ display: 'flex', gap: '5px', marginBottom: '8px' }}>
+                    {([
+                        ['onlyHere', `Only in ${comparison.left} (${comparison.onlyHere.components.length + comparison.onlyHere.edges.length})`],
+                        ['onlyOther', `Only in ${comparison.right} (${comparison.onlyOther.components.length + comparison.onlyOther.edges.length})`],
+                        ['differences', `Size/Coverage (${comparison.differences.length})`]
+                    ] as const).map(([tab, label]) => (
+                        <button key={tab} onClick={() => setCompareTab(tab)} style={{
+                            flex: 1, padding: '4px', fontSize: '11px', cursor: 'pointer', borderRadius: '4px',
+                            border: '1px solid #0176d3',
+                            background: compareTab === tab ? '#0176d3' : 'white',
+                            color: compareTab === tab ? 'white' : '#0176d3'
+                        }}>{label}</button>
+                    ))}
+                </div>
+                <div style={{ overflowY: 'auto', flex: 1 }}>
+                    {compareTab === 'differences' ? (
+                        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                            <thead style={{ background: '#f4f6f9', position: 'sticky', top: 0 }}>
+                                <tr>
+                                    <th style={{ textAlign: 'left', padding: '4px' }}>Component</th>
+                                    <th style={{ textAlign: 'right', padding: '4px' }}>Size</th>
+                                    <th style={{ textAlign: 'right', padding: '4px' }}>Coverage</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {comparison.differences.map(d => (
+                                    <tr key={`${d.type}:${d.name}`} style={{ borderBottom: '1px solid #eee' }}>
+                                        <td style={{ padding: '4px' }}>{d.name} <span style={{ color: '#666', fontSize: '10px' }}>{d.type}</span></td>
+                                        <td style={{ padding: '4px', textAlign: 'right' }}>{d.size ?? '-'} / {d.otherSize ?? '-'}</td>
+                                        <td style={{ padding: '4px', textAlign: 'right' }}>{d.coverage ?? '-'} / {d.otherCoverage ?? '-'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <>
+                            <div style={{ fontWeight: 600, margin: '4px 0' }}>Components</div>
+                            {comparison[compareTab].components.map(c => (
+                                <div key={`${c.type}:${c.name}`} style={{ padding: '2px 0' }}>{c.name} <span style={{ color: '#666', fontSize: '10px' }}>{c.type}</span></div>
+                            ))}
+                            <div style={{ fontWeight: 600, margin: '8px 0 4px 0' }}>Dependencies</div>
+                            {comparison[compareTab].edges.map(e => (
+                                <div key={`${e.sourceType}:${e.sourceName}->${e.targetType}:${e.targetName}`} style={{ padding: '2px 0' }}>
+                                    {e.sourceName} → {e.targetName} <span style={{ color: '#666', fontSize: '10px' }}>{e.sourceType} → {e.targetType}</span>
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+                <div style={{ marginTop: '8px', fontSize: '11px', color: '#666', borderTop: '1px solid #eee', paddingTop: '5px' }}>
+                    * Components are matched by type and name. Sizes and coverage are shown as {comparison.left} / {comparison.right}.
+                </div>
+            </Panel>
+        )}
+
+        {showCyclesPanel && cycles && (
+            <Panel position="bottom-center" style={{ background: 'white', color: 'black', padding: '10px', borderRadius: '8px', boxShadow: '0 4px 12px rgba(0,0,0,0.15)', width: '600px', maxHeight: '400px', display: 'flex', flexDirection: 'column', pointerEvents: 'all' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', borderBottom: '1px solid #eee', paddingBottom: '8px' }}>
+                    <span style={{ fontWeight: 'bold', fontSize: '16px' }}>Circular Dependencies</span>
+                    <button onClick={() => setShowCyclesPanel(false)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', color: '#666' }}>&times;</button>
+                </div>
+                <div style={{ overflowY: 'auto', flex: 1 }}>
+                    {cycles.length === 0 ? (
+                        <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>No circular dependencies found.</div>
+                    ) : (
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                            <thead style={{ background: '#f4f6f9', position: 'sticky', top: 0 }}>
+                                <tr>
+                                    <th style={{ textAlign: 'left', padding: '8px' }}>#</th>
+                                    <th style={{ textAlign: 'left', padding: '8px' }}>Size</th>
+                                    <th style={{ textAlign: 'left', padding: '8px' }}>Example Loop</th>
+                                    <th style={{ textAlign: 'center', padding: '8px' }}>Action</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {cycles.map((cycle, i) => {
+                                    const names = new Map(cycle.members.map(m => [m.id, m.name]));
+                                    return (
+                                        <tr key={cycle.members[0].id} style={{ borderBottom: '1px solid #eee' }}>
+                                            <td style={{ padding: '8px' }}>{i + 1}</td>
+                                            <td style={{ padding: '8px', fontWeight: 'bold' }}>{cycle.members.length}</td>
+                                            <td style={{ padding: '8px' }}>
+                                                <div title={cycle.members.map(m => `${m.name} (${m.type})`).join('\n')} style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', maxWidth: '380px' }}>
+                                                    {cycle.example.map(id => names.get(id)).join(' → ')}
+                                                </div>
+                                            </td>
+                                            <td style={{ padding: '8px', textAlign: 'center' }}>
+                                                <button
+                                                    onClick={() => selectCycle(cycle)}
+                                                    style={{ background: CYCLE_COLOR, color: 'white', border: 'none', borderRadius: '4px', padding: '4px 8px', cursor: 'pointer', fontSize: '11px' }}
+                                                >
+                                                    Select Items
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                <div style={{ marginTop: '10px', fontSize: '11px', color: '#666', borderTop: '1px solid #eee', paddingTop: '5px' }}>
+                    * Each row is a group of components that all depend on each other, directly or through the group. Hover a loop for every member.
+                </div>
+            </Panel>
+        )}
+
+        {showRulesPanel && ruleCheck && (
+            <Panel position="bottom-center" style={{ background: 'white', color: 'black', padding: '10px', borderRadius: '8px', boxShadow: '0 4px 12px rgba(0,0,0,0.15)', width: '700px', maxHeight: '400px', display: 'flex', flexDirection: 'column', pointerEvents: 'all' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', borderBottom: '1px solid #eee', paddingBottom: '8px' }}>
+                    <span style={{ fontWeight: 'bold', fontSize: '16px' }}>Architecture Rules</span>
+                    <button onClick={() => setShowRulesPanel(false)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', color: '#666' }}>&times;</button>
+                </div>
+                <div style={{ overflowY: 'auto', flex: 1 }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                        <thead style={{ background: '#f4f6f9', position: 'sticky', top: 0 }}>
+                            <tr>
+                                <th style={{ textAlign: 'left', padding: '8px' }}>Rule / Dependency</th>
+                                <th style={{ textAlign: 'left', padding: '8px' }}>Violations</th>
+                                <th style={{ textAlign: 'center', padding: '8px' }}>Action</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ruleCheck.rules.map(rule => {
+                                const violations = ruleCheck.violations.filter(v => v.rule === rule.name);
+                                return (
+                                    <Fragment key={rule.name}>
+                                        <tr style={{ borderBottom: '1px solid #eee', background: '#fafafa' }}>
+                                            <td style={{ padding: '8px', fontWeight: 'bold' }} title={rule.description}>{rule.name}</td>
+                                            <td style={{ padding: '8px', fontWeight: 'bold', color: rule.violations > 0 ? RULE_COLOR : '#2e7d32' }}>{rule.violations > 0 ? rule.violations : 'OK'}</td>
+                                            <td style={{ padding: '8px', textAlign: 'center' }}>
+                                                {violations.length > 0 && (
+                                                    <button
+                                                        onClick={() => selectViolations(violations)}
+                                                        style={{ background: RULE_COLOR, color: 'white', border: 'none', borderRadius: '4px', padding: '4px 8px', cursor: 'pointer', fontSize: '11px' }}
+                                                    >
+                                                        Select All
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {violations.map(v => (
+                                            <tr key={`${rule.name}-${v.source.id}-${v.target.id}`} style={{ borderBottom: '1px solid #eee' }}>
+                                                <td colSpan={2} style={{ padding: '6px 8px 6px 20px' }}>
+                                                    <div style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', maxWidth: '520px' }}>
+                                                        {v.source.name} <span style={{ color: '#888' }}>({v.source.type})</span> → {v.target.name} <span style={{ color: '#888' }}>({v.target.type})</span>
+                                                    </div>
+                                                </td>
+                                                <td style={{ padding: '6px 8px', textAlign: 'center' }}>
+                                                    <button
+                                                        onClick={() => selectViolations([v])}
+                                                        style={{ background: 'none', color: RULE_COLOR, border: `1px solid ${RULE_COLOR}`, borderRadius: '4px', padding: '2px 8px', cursor: 'pointer', fontSize: '11px' }}
+                                                    >
+                                                        Select
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <div style={{ marginTop: '10px', fontSize: '11px', color: '#666', borderTop: '1px solid #eee', paddingTop: '5px' }}>
+                    * Rules come from the rules file the server was started with (dep-viewer.rules.json by default). Run "dep-viewer check" to gate a pipeline on them.
+                </div>
+            </Panel>
+        )}
+
+        {showRiskPanel && riskRanking && (
+            <Panel position="bottom-center" style={{ background: 'white', color: 'black', padding: '10px', borderRadius: '8px', boxShadow: '0 4px 12px rgba(0,0,0,0.15)', width: '700px', maxHeight: '400px', display: 'flex', flexDirection: 'column', pointerEvents: 'all' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', borderBottom: '1px solid #eee', paddingBottom: '8px' }}>
+                    <span style={{ fontWeight: 'bold', fontSize: '16px' }}>Riskiest Components</span>
+                    <button onClick={() => setShowRiskPanel(false)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', color: '#666' }}>&times;</button>
+                </div>
+                <div style={{ overflowY: 'auto', flex: 1 }}>
+                    {riskRanking.length === 0 ? (
+                        <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>No Apex components to score.</div>
+                    ) : (
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                            <thead style={{ background: '#f4f6f9', position: 'sticky', top: 0 }}>
+                                <tr>
+                                    <th style={{ textAlign: 'right', padding: '8px' }}>Risk</th>
+                                    <th style={{ textAlign: 'left', padding: '8px' }}>Name</th>
+                                    <th style={{ textAlign: 'left', padding: '8px' }}>Type</th>
+                                    <th style={{ textAlign: 'right', padding: '8px' }}>Coverage</th>
+                                    <th style={{ textAlign: 'right', padding: '8px' }}>Size</th>
+                                    <th style={{ textAlign: 'right', padding: '8px' }}>Dependents</th>
+                                    <th style={{ textAlign: 'center', padding: '8px' }}>Action</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {riskRanking.map(c => (
+                                    <tr key={c.id} style={{ borderBottom: '1px solid #eee' }}>
+                                        <td style={{ padding: '8px', textAlign: 'right' }}>
+                                            <span style={{ display: 'inline-block', width: '8px', height: '8px', borderRadius: '50%', background: riskColor(c.risk), marginRight: '6px' }}></span>
+                                            <b>{c.risk.toFixed(1)}</b>
+                                        </td>
+                                        <td style={{ padding: '8px' }}>{c.name}</td>
+                                        <td style={{ padding: '8px', color: '#666' }}>{c.type}</td>
+                                        <td style={{ padding: '8px', textAlign: 'right' }}>{c.coverage === null ? '-' : `${c.coverage}%`}</td>
+                                        <td style={{ padding: '8px', textAlign: 'right' }}>{c.size ?? '-'}</td>
+                                        <td style={{ padding: '8px', textAlign: 'right' }}>{c.fanIn >= RISK_FAN_IN_CAP ? `${RISK_FAN_IN_CAP}+` : c.fanIn}</td>
+                                        <td style={{ padding: '8px', textAlign: 'center' }}>
+                                            <button
+                                                onClick={() => toggleSearchSelection({ id: c.id, name: c.name, type: c.type })}
+                                                style={{ background: selectedItems.has(c.id) ? '#ccc' : RISK_COLOR, color: 'white', border: 'none', borderRadius: '4px', padding: '4px 8px', cursor: 'pointer', fontSize: '11px' }}
+                                            >
+                                                {selectedItems.has(c.id) ? 'Remove' : 'Select'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                <div style={{ marginTop: '10px', fontSize: '11px', color: '#666', borderTop: '1px solid #eee', paddingTop: '5px' }}>
+                    * Risk (0-100) grows with missing coverage, size and the number of components that depend on a class directly or transitively. Test classes and managed code are not scored.
+                </div>
+            </Panel>
+        )}
+
+        {showUnusedPanel && unusedReport && (
+            <Panel position="bottom-center" style={{ background: 'white', color: 'black', padding: '10px', borderRadius: '8px', boxShadow: '0 4px 12px rgba(0,0,0,0.15)', width: '700px', maxHeight: '400px', display: 'flex', flexDirection: 'column', pointerEvents: 'all' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', borderBottom: '1px solid #eee', paddingBottom: '8px' }}>
+                    <span style={{ fontWeight: 'bold', fontSize: '16px' }}>Unused Components</span>
+                    <button onClick={() => setShowUnusedPanel(false)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', color: '#666' }}>&times;</button>
+                </div>
+                <div style={{ overflowY: 'auto', flex: 1 }}>
+                    {unusedReport.candidates.length === 0 ? (
+                        <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>No unused components found.</div>
+                    ) : (
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                            <thead style={{ background: '#f4f6f9', position: 'sticky', top: 0 }}>
+                                <tr>
+                                    {([['name', 'Name'], ['type', 'Type'], ['size', 'Size'], ['lastModifiedDate', 'Last Modified']] as const).map(([key, label]) => (
+                                        <th key={key} onClick={() => sortUnusedBy(key)} style={{ textAlign: key === 'size' ? 'right' : 'left', padding: '8px', cursor: 'pointer', whiteSpace: 'nowrap' }}>
+                                            {label}{unusedSort.key === key ? (unusedSort.ascending ? ' ▲' : ' ▼') : ''}
+                                        </th>
+                                    ))}
+                                    <th style={{ textAlign: 'left', padding: '8px' }}>Only Used By</th>
+                                    <th style={{ textAlign: 'center', padding: '8px' }}>Action</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortUnused(unusedReport.candidates, unusedSort.key, unusedSort.ascending).map(c => (
+                                    <tr key={c.id} style={{ borderBottom: '1px solid #eee' }}>
+                                        <td style={{ padding: '8px' }} title={c.testedBy.length > 0 ? `Tests: ${c.testedBy.join(', ')}` : undefined}>
+                                            {c.name}{c.testedBy.length > 0 && <span style={{ color: '#666', fontSize: '10px' }}> +{c.testedBy.length} tests</span>}
+                                        </td>
+                                        <td style={{ padding: '8px', color: '#666' }}>{c.type}</td>
+                                        <td style={{ padding: '8px', textAlign: 'right' }}>{c.size ?? '-'}</td>
+                                        <td style={{ padding: '8px', color: '#666' }}>{c.lastModifiedDate ? new Date(c.lastModifiedDate).toLocaleDateString() : '-'}</td>
+                                        <td style={{ padding: '8px', color: '#666' }}>{c.referencedBy.join(', ') || '-'}</td>
+                                        <td style={{ padding: '8px', textAlign: 'center' }}>
+                                            <button
+                                                onClick={() => toggleSearchSelection({ id: c.id, name: c.name, type: c.type })}
+                                                style={{ background: selectedItems.has(c.id) ? '#ccc' : UNUSED_COLOR, color: 'white', border: 'none', borderRadius: '4px', padding: '4px 8px', cursor: 'pointer', fontSize: '11px' }}
+                                            >
+                                                {selectedItems.has(c.id) ? 'Remove' : 'Select'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                <div style={{ marginTop: '10px', fontSize: '11px', color: '#666', borderTop: '1px solid #eee', paddingTop: '5px' }}>
+                    * Nothing outside this list references these components. Kept as entry points: {Object.entries(unusedReport.entryPoints).map(([reason, count]) => `${count} ${reason}`).join(', ') || 'none'}.
+                    {unusedReport.unchecked > 0 && ` Skipped ${unusedReport.unchecked} Apex classes that were not checked for entry points; sync again to check them.`}
+                </div>
+            </Panel>
+        )}
+
         {showAnalysisPanel && (
             <Panel position="bottom-center" style={{ 
                 background: 'white', 
@@ -1182,38 +2620,44 @@ function AppContent() {
                 padding: '10px', 
                 borderRadius: '8px', 
                 boxShadow: '0 4px 12px rgba(0,0,0,0.15)', 
-                width: '600px', 
+                width: '700px', 
                 maxHeight: '400px', 
                 display: 'flex', 
                 flexDirection: 'column',
                 pointerEvents: 'all'
             }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', borderBottom: '1px solid #eee', paddingBottom: '8px' }}>
-                    <span style={{ fontWeight: 'bold', fontSize: '16px' }}>Cluster Analysis Results</span>
+                    <span style={{ fontWeight: 'bold', fontSize: '16px' }}>Proposed Modules</span>
                     <button onClick={() => setShowAnalysisPanel(false)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', color: '#666' }}>&times;</button>
                 </div>
                 <div style={{ overflowY: 'auto', flex: 1 }}>
-                    {clusters.filter(c => c.size > 1).length === 0 ? (
-                        <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>No isolated clusters found (everything is connected to the main graph).</div>
+                    {!clusterResult || clusterResult.communities.length === 0 ? (
+                        <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>No modules found.</div>
                     ) : (
                         <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
                             <thead style={{ background: '#f4f6f9', position: 'sticky', top: 0 }}>
                                 <tr>
-                                    <th style={{ textAlign: 'left', padding: '8px' }}>Cluster ID</th>
-                                    <th style={{ textAlign: 'left', padding: '8px' }}>Size</th>
+                                    <th style={{ textAlign: 'left', padding: '8px' }}>Module</th>
+                                    <th style={{ textAlign: 'right', padding: '8px' }}>Size</th>
+                                    <th style={{ textAlign: 'right', padding: '8px' }} title="Dependencies between members">Internal</th>
+                                    <th style={{ textAlign: 'right', padding: '8px' }} title="Dependencies that cross into another module">External</th>
+                                    <th style={{ textAlign: 'right', padding: '8px' }} title="Share of the members' dependencies that stay inside the module">Cohesion</th>
                                     <th style={{ textAlign: 'left', padding: '8px' }}>Sample Components</th>
                                     <th style={{ textAlign: 'center', padding: '8px' }}>Action</th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {clusters.filter(c => c.size > 1).map(cluster => (
+                                {clusterResult.communities.map(cluster => (
                                     <tr key={cluster.id} style={{ borderBottom: '1px solid #eee' }} className="cluster-row">
                                         <td style={{ padding: '8px' }}>#{cluster.id}</td>
-                                        <td style={{ padding: '8px', fontWeight: 'bold' }}>{cluster.size}</td>
+                                        <td style={{ padding: '8px', textAlign: 'right', fontWeight: 'bold' }}>{cluster.members.length}</td>
+                                        <td style={{ padding: '8px', textAlign: 'right' }}>{cluster.internalEdges}</td>
+                                        <td style={{ padding: '8px', textAlign: 'right' }}>{cluster.externalEdges}</td>
+                                        <td style={{ padding: '8px', textAlign: 'right' }}>{Math.round(cluster.cohesion * 100)}%</td>
                                         <td style={{ padding: '8px' }}>
-                                            <div style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', maxWidth: '300px' }}>
-                                                {cluster.nodes.slice(0, 3).map(n => n.name).join(', ')}
-                                                {cluster.size > 3 && `, +${cluster.size - 3} more`}
+                                            <div title={cluster.members.map(m => `${m.name} (${m.type})`).join('\n')} style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', maxWidth: '250px' }}>
+                                                {cluster.members.slice(0, 3).map(n => n.name).join(', ')}
+                                                {cluster.members.length > 3 && `, +${cluster.members.length - 3} more`}
                                             </div>
                                         </td>
                                         <td style={{ padding: '8px', textAlign: 'center' }}>
@@ -1239,7 +2683,8 @@ function AppContent() {
                     )}
                 </div>
                 <div style={{ marginTop: '10px', fontSize: '11px', color: '#666', borderTop: '1px solid #eee', paddingTop: '5px' }}>
-                    * Showing groups of items that are connected to each other but isolated from the rest of the org. Ideal candidates for packaging.
+                    * Groups of components that depend mostly on each other (Louvain communities{clusterResult ? `, modularity ${clusterResult.modularity.toFixed(2)}` : ''}). High cohesion marks good package candidates.
+                    {clusterResult && clusterResult.excluded.length > 0 && ` ${clusterResult.excluded.length} standard objects and hubs were left out.`}
                 </div>
             </Panel>
         )}
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import {
+    getComponents, getDependencyAdjacency, getSyncRuns, insertComponents, updateComponentStats, setEntryPoints,
+    insertDependencyEdges, rebuildSearchIndex, createSnapshot, COMPONENT_ATTRIBUTES, ComponentRecord
+} from './db';
+import { updateRiskScores } from './risk';
+
+// A bundle is gzipped JSON. BUNDLE_VERSION changes whenever the layout does, and
+// import refuses any version it was not written for.
+export const BUNDLE_FORMAT = 'dep-viewer-bundle';
+export const BUNDLE_VERSION = 1;
+
+export type BundleComponent = ComponentRecord & { size: number | null, coverage: number | null, entryPoint: string | null };
+
+export interface Bundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    org: string;
+    // When the bundled data was synced (or scanned), from the latest sync run
+    syncedAt: string | null;
+    exportedAt: string;
+    components: BundleComponent[];
+    // [sourceId, targetId]
+    edges: [string, string][];
+}
+
+// Bundle the database that is currently open
+export function createBundle(org: string): Bundle {
+    const runs = getSyncRuns();
+    const edges: [string, string][] = [];
+    getDependencyAdjacency().forEach((targets, source) => targets.forEach(target => edges.push([source, target])));
+
+    return {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        org,
+        syncedAt: runs.length > 0 ? runs[runs.length - 1].finishedAt : null,
+        exportedAt: new Date().toISOString(),
+        components: getComponents() as BundleComponent[],
+        edges
+    };
+}
+
+export function writeBundle(bundle: Bundle, file: string) {
+    fs.writeFileSync(file, zlib.gzipSync(JSON.stringify(bundle)));
+}
+
+export function readBundle(file: string): Bundle {
+    if (!fs.existsSync(file)) {
+        throw new Error(`Bundle not found: ${file}`);
+    }
+    let bundle: any;
+    try {
+        bundle = JSON.parse(zlib.gunzipSync(fs.readFileSync(file)).toString('utf8'));
+    } catch (e: any) {
+        throw new Error(`${file} is not a dep-viewer bundle: ${e.message}`);
+    }
+
+    if (bundle?.format !== BUNDLE_FORMAT) {
+        throw new Error(`${file} is not a dep-viewer bundle`);
+    }
+    if (bundle.version !== BUNDLE_VERSION) {
+        const hint = bundle.version > BUNDLE_VERSION ? 'upgrade dep-viewer to import it' : 'export it again with this version';
+        throw new Error(`${file} is bundle version ${bundle.version}, but this dep-viewer reads version ${BUNDLE_VERSION}; ${hint}`);
+    }
+    if (typeof bundle.org !== 'string' || !Array.isArray(bundle.components) || !Array.isArray(bundle.edges)) {
+        throw new Error(`${file} is incomplete: org, components and edges are required`);
+    }
+    return bundle;
+}
+
+// Load a bundle into the open (empty) database and record it as a sync run
+export function importBundle(bundle: Bundle) {
+    const components = bundle.components.map(c => {
+        const record: ComponentRecord = { id: c.id, name: c.name, type: c.type };
+        for (const attribute of COMPONENT_ATTRIBUTES) {
+            if (c[attribute]) record[attribute] = c[attribute];
+        }
+        return record;
+    });
+    insertComponents(components);
+    updateComponentStats(bundle.components.map(c => ({ id: c.id, size: c.size ?? undefined, coverage: c.coverage ?? undefined })));
+    setEntryPoints(bundle.components.map(c => ({ id: c.id, entryPoint: c.entryPoint ?? undefined })));
+    insertDependencyEdges(bundle.edges.map(([sourceId, targetId]) => ({ sourceId, targetId })));
+    rebuildSearchIndex();
+    updateRiskScores();
+    return createSnapshot(bundle.org, 'bundle', 0);
+}
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getComponentByName, getComponentsByIds, getImpact, ImpactResult } from './db';
+import { componentForSourcePath } from './sourceScanner';
+import { isTestClass } from './unused';
+
+const execFilePromise = promisify(execFile);
+
+export interface ChangedFile {
+    file: string;
+    // Missing when the path is not a component source or the component is not in the database
+    component?: { id: string, name: string, type: string };
+}
+
+export interface ChangeImpact {
+    changed: ChangedFile[];
+    // Components that depend on a changed one, each at its shortest distance
+    impacted: ImpactResult[];
+    // Test classes among the changed and impacted components, for --tests
+    tests: string[];
+}
+
+// A single argument with .. that is not a file is a git range, e.g. origin/main...HEAD
+export async function resolveChangedFiles(changed: string[], repoPath: string) {
+    if (changed.length === 1 && changed[0].includes('..') && !fs.existsSync(changed[0])) {
+        try {
+            const { stdout } = await execFilePromise('git', ['diff', '--name-only', changed[0]], { cwd: repoPath, maxBuffer: 1024 * 1024 * 50 });
+            return stdout.split('\n').map(line => line.trim()).filter(Boolean);
+        } catch (e: any) {
+            throw new Error(`git diff ${changed[0]} failed: ${e.stderr?.trim().split('\n')[0] || e.message}`);
+        }
+    }
+    return changed;
+}
+
+export function analyzeChangeImpact(files: string[], depth: number): ChangeImpact {
+    const changed: ChangedFile[] = files.map(file => {
+        const source = componentForSourcePath(file);
+        const component = source && getComponentByName(source.type, source.name);
+        return component ? { file, component: { id: component.id, name: component.name, type: component.type } } : { file };
+    });
+
+    const roots = new Map<string, { id: string, name: string, type: string }>();
+    changed.forEach(c => c.component && roots.set(c.component.id, c.component));
+
+    const impacted = new Map<string, ImpactResult>();
+    for (const id of roots.keys()) {
+        for (const result of getImpact(id, 'up', depth)) {
+            const known = impacted.get(result.id);
+            if (!roots.has(result.id) && (!known || result.distance < known.distance)) impacted.set(result.id, result);
+        }
+    }
+
+    const tests = getComponentsByIds([...roots.keys(), ...impacted.keys()])
+        .filter(isTestClass)
+        .map(c => c.name)
+        .sort();
+
+    return {
+        changed,
+        impacted: Array.from(impacted.values()).sort((a, b) => a.distance - b.distance || a.type.localeCompare(b.type) || a.name.localeCompare(b.name)),
+        tests
+    };
+}
+
+export function printChangeImpact(impact: ChangeImpact) {
+    const mapped = impact.changed.filter(c => c.component);
+    const unmapped = impact.changed.filter(c => !c.component);
+    console.log(`Changed: ${impact.changed.length} files, ${mapped.length} mapped to components.`);
+    for (const c of mapped) console.log(`  ${c.file} -> [${c.component!.type}] ${c.component!.name}`);
+    if (unmapped.length > 0) {
+        console.log(`Not mapped (not a component source, or not in the database):`);
+        for (const c of unmapped) console.log(`  ${c.file}`);
+    }
+
+    console.log(`\nImpacted: ${impact.impacted.length} components`);
+    for (const r of impact.impacted) {
+        console.log(`  ${r.distance} [${r.type}] ${r.name} (via ${r.path.slice(0, -1).map(p => p.name).join(' > ')})`);
+    }
+
+    if (impact.tests.length === 0) {
+        console.log('\nNo Apex tests found for these changes.');
+        return;
+    }
+    console.log(`\nTests to run (${impact.tests.length}):`);
+    console.log(`  sf project deploy start --test-level RunSpecifiedTests --tests ${impact.tests.join(' ')}`);
+}
@@ -0,0 +1,211 @@
+import { getComponentsByIds, getDependencyAdjacency } from './db';
+
+export interface CommunityOptions {
+    // Leave out standard objects, which every module may use without coupling them
+    excludeStandard?: boolean;
+    // Leave out hubs: components connected to more than this many others
+    hubDegree?: number;
+    // Above 1 favours smaller modules, below 1 larger ones
+    resolution?: number;
+}
+
+export interface Community {
+    id: number;
+    members: { id: string, name: string, type: string }[];
+    // Dependencies between members, and between a member and a component of another module
+    internalEdges: number;
+    externalEdges: number;
+    // Share of the members' dependencies that stay inside the module, 0 to 1
+    cohesion: number;
+}
+
+export interface CommunityResult {
+    modularity: number;
+    excluded: { id: string, name: string, type: string, reason: 'standard' | 'hub' }[];
+    communities: Community[];
+}
+
+// Symmetric weighted adjacency; a self loop holds twice the weight inside a merged node
+type WeightedGraph = Map<number, number>[];
+
+const isStandardObject = (type: string, name: string) =>
+    type === 'StandardEntity' || (type === 'CustomObject' && !/__(c|mdt|e|x|b)$/i.test(name));
+
+// One Louvain level: move nodes to the neighbouring community with the best
+// modularity gain until nothing moves. Only the neighbours of a node that moved
+// are visited again, as in Leiden's fast local moving. Returns each node's community.
+function moveNodes(graph: WeightedGraph, resolution: number) {
+    const degree = graph.map(neighbours => Array.from(neighbours.values()).reduce((a, b) => a + b, 0));
+    const total = degree.reduce((a, b) => a + b, 0);
+    const community = graph.map((_, i) => i);
+    const communityDegree = degree.slice();
+    const queue = graph.map((_, i) => i);
+    const queued = graph.map(() => true);
+    let moved = false;
+
+    for (let next = 0; next < queue.length; next++) {
+        const node = queue[next];
+        queued[node] = false;
+        const current = community[node];
+        const links = new Map<number, number>();
+        graph[node].forEach((weight, neighbour) => {
+            if (neighbour !== node) links.set(community[neighbour], (links.get(community[neighbour]) || 0) + weight);
+        });
+
+        communityDegree[current] -= degree[node];
+        const gain = (c: number) => (links.get(c) || 0) - resolution * communityDegree[c] * degree[node] / total;
+        let best = current;
+        let bestGain = gain(current);
+        links.forEach((_, c) => {
+            const g = gain(c);
+            if (g > bestGain + 1e-12) {
+                best = c;
+                bestGain = g;
+            }
+        });
+        communityDegree[best] += degree[node];
+
+        if (best !== current) {
+            community[node] = best;
+            moved = true;
+            graph[node].forEach((_, neighbour) => {
+                if (!queued[neighbour] && community[neighbour] !== best) {
+                    queued[neighbour] = true;
+                    queue.push(neighbour);
+                }
+            });
+        }
+    }
+    return { community, moved };
+}
+
+// Louvain community detection: alternate moving nodes and merging each community
+// into a single node, until a level moves nothing
+function louvain(graph: WeightedGraph, resolution: number) {
+    let membership = graph.map((_, i) => i);
+    let level = graph;
+
+    for (;;) {
+        const { community, moved } = moveNodes(level, resolution);
+        if (!moved) break;
+
+        const renumber = new Map<number, number>();
+        community.forEach(c => renumber.has(c) || renumber.set(c, renumber.size));
+        const merged: WeightedGraph = Array.from({ length: renumber.size }, () => new Map());
+        level.forEach((neighbours, node) => {
+            const from = renumber.get(community[node])!;
+            neighbours.forEach((weight, neighbour) => {
+                const to = renumber.get(community[neighbour])!;
+                merged[from].set(to, (merged[from].get(to) || 0) + weight);
+            });
+        });
+        membership = membership.map(m => renumber.get(community[m])!);
+        level = merged;
+    }
+    return membership;
+}
+
+function modularity(graph: WeightedGraph, membership: number[]) {
+    let total = 0;
+    const inside = new Map<number, number>();
+    const degree = new Map<number, number>();
+    graph.forEach((neighbours, node) => neighbours.forEach((weight, neighbour) => {
+        total += weight;
+        degree.set(membership[node], (degree.get(membership[node]) || 0) + weight);
+        if (membership[node] === membership[neighbour]) inside.set(membership[node], (inside.get(membership[node]) || 0) + weight);
+    }));
+    if (total === 0) return 0;
+    let q = 0;
+    degree.forEach((d, c) => q += (inside.get(c) || 0) / total - (d / total) ** 2);
+    return q;
+}
+
+// Proposed modules: Louvain communities of the undirected dependency graph, largest first
+export function findCommunities(options: CommunityOptions = {}): CommunityResult {
+    const adjacency = getDependencyAdjacency();
+    const ids = Array.from(new Set([...adjacency.keys(), ...Array.from(adjacency.values()).flat()]));
+    const components = new Map(getComponentsByIds(ids).map(c => [c.id, c]));
+    const describe = (id: string) => ({ id, name: components.get(id)?.name || id, type: components.get(id)?.type || 'Unknown' });
+
+    const edges: [string, string][] = [];
+    adjacency.forEach((targets, source) => targets.forEach(target => source !== target && edges.push([source, target])));
+
+    const neighbours = new Map<string, Set<string>>();
+    for (const [source, target] of edges) {
+        if (!neighbours.has(source)) neighbours.set(source, new Set());
+        if (!neighbours.has(target)) neighbours.set(target, new Set());
+        neighbours.get(source)!.add(target);
+        neighbours.get(target)!.add(source);
+    }
+
+    const excluded: CommunityResult['excluded'] = [];
+    for (const id of neighbours.keys()) {
+        const { name, type } = describe(id);
+        if (options.excludeStandard && isStandardObject(type, name)) {
+            excluded.push({ id, name, type, reason: 'standard' });
+        } else if (options.hubDegree !== undefined && neighbours.get(id)!.size > options.hubDegree) {
+            excluded.push({ id, name, type, reason: 'hub' });
+        }
+    }
+    const skip = new Set(excluded.map(e => e.id));
+
+    const nodes = Array.from(neighbours.keys()).filter(id => !skip.has(id)).sort();
+    const index = new Map(nodes.map((id, i) => [id, i]));
+    const graph: WeightedGraph = nodes.map(() => new Map());
+    const kept = edges.filter(([source, target]) => index.has(source) && index.has(target));
+    for (const [source, target] of kept) {
+        const [a, b] = [index.get(source)!, index.get(target)!];
+        graph[a].set(b, (graph[a].get(b) || 0) + 1);
+        graph[b].set(a, (graph[b].get(a) || 0) + 1);
+    }
+
+    const membership = louvain(graph, options.resolution ?? 1);
+    const groups = new Map<number, string[]>();
+    nodes.forEach((id, i) => groups.set(membership[i], [...(groups.get(membership[i]) || []), id]));
+
+    const internal = new Map<number, number>();
+    const external = new Map<number, number>();
+    for (const [source, target] of kept) {
+        const [a, b] = [membership[index.get(source)!], membership[index.get(target)!]];
+        if (a === b) {
+            internal.set(a, (internal.get(a) || 0) + 1);
+        } else {
+            external.set(a, (external.get(a) || 0) + 1);
+            external.set(b, (external.get(b) || 0) + 1);
+        }
+    }
+
+    const communities = Array.from(groups.entries())
+        .filter(([, members]) => members.length > 1)
+        .map(([c, members]) => {
+            const internalEdges = internal.get(c) || 0;
+            const externalEdges = external.get(c) || 0;
+            return {
+                members: members.map(describe).sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name)),
+                internalEdges,
+                externalEdges,
+                cohesion: internalEdges + externalEdges > 0 ? internalEdges / (internalEdges + externalEdges) : 1
+            };
+        })
+        .sort((a, b) => b.members.length - a.members.length || b.cohesion - a.cohesion)
+        .map((community, i) => ({ id: i + 1, ...community }));
+
+    return { modularity: modularity(graph, membership), excluded, communities };
+}
+
+export function printCommunities(result: CommunityResult) {
+    if (result.excluded.length > 0) {
+        const count = (reason: string) => result.excluded.filter(e => e.reason === reason).length;
+        console.log(`Excluded ${count('standard')} standard objects and ${count('hub')} hubs.`);
+    }
+    if (result.communities.length === 0) {
+        console.log('No modules found.');
+        return;
+    }
+    console.log(`Found ${result.communities.length} modules (modularity ${result.modularity.toFixed(3)}).`);
+    for (const c of result.communities) {
+        console.log(`\nModule ${c.id}: ${c.members.length} components, ${c.internalEdges} internal / ${c.externalEdges} external dependencies, cohesion ${(c.cohesion * 100).toFixed(0)}%`);
+        const sample = c.members.slice(0, 10).map(m => `${m.name} [${m.type}]`).join(', ');
+        console.log(`  ${sample}${c.members.length > 10 ? `, +${c.members.length - 10} more` : ''}`);
+    }
+}
@@ -0,0 +1,30 @@
+import { compareWithDatabase } from './db';
+
+export type OrgComparison = ReturnType<typeof compareWithDatabase>;
+
+const formatValue = (value: number | null, unit = '') => value === null ? 'none' : `${value}${unit}`;
+
+export function printComparison(left: string, right: string, comparison: OrgComparison) {
+    const { onlyHere, onlyOther, differences } = comparison;
+    console.log(`\nComparing ${left} with ${right}`);
+    console.log(`  Only in ${left}: ${onlyHere.components.length} components, ${onlyHere.edges.length} dependencies`);
+    console.log(`  Only in ${right}: ${onlyOther.components.length} components, ${onlyOther.edges.length} dependencies`);
+    console.log(`  Size or coverage differs: ${differences.length} components`);
+
+    const section = (title: string, lines: string[]) => {
+        if (lines.length === 0) return;
+        console.log(`\n${title}:`);
+        lines.forEach(line => console.log(`  ${line}`));
+    };
+
+    section(`Components only in ${left}`, onlyHere.components.map(c => `[${c.type}] ${c.name}`));
+    section(`Components only in ${right}`, onlyOther.components.map(c => `[${c.type}] ${c.name}`));
+    section(`Dependencies only in ${left}`, onlyHere.edges.map(e => `${e.sourceName} (${e.sourceType}) -> ${e.targetName} (${e.targetType})`));
+    section(`Dependencies only in ${right}`, onlyOther.edges.map(e => `${e.sourceName} (${e.sourceType}) -> ${e.targetName} (${e.targetType})`));
+    section(`Size / coverage (${left} vs ${right})`, differences.map(d => {
+        const parts = [];
+        if (d.size !== d.otherSize) parts.push(`size ${formatValue(d.size)} vs ${formatValue(d.otherSize)}`);
+        if (d.coverage !== d.otherCoverage) parts.push(`coverage ${formatValue(d.coverage, '%')} vs ${formatValue(d.otherCoverage, '%')}`);
+        return `[${d.type}] ${d.name}: ${parts.join(', ')}`;
+    }));
+}
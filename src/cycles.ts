@@ -0,0 +1,143 @@
+import { getComponentsByIds, getDependencyAdjacency } from './db';
+
+export interface DependencyCycle {
+    members: { id: string, name: string, type: string }[];
+    // Edges between members, i.e. the ones that keep the cycle closed
+    edges: { sourceId: string, targetId: string }[];
+    // One concrete loop through the first member, e.g. A -> B -> C -> A
+    example: string[];
+}
+
+// Tarjan's strongly connected components, iterative so deep dependency chains
+// don't overflow the call stack
+export function stronglyConnectedComponents(adjacency: Map<string, string[]>) {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let counter = 0;
+
+    const nodes = new Set<string>(adjacency.keys());
+    adjacency.forEach(targets => targets.forEach(t => nodes.add(t)));
+
+    for (const start of nodes) {
+        if (index.has(start)) continue;
+        // Each frame is a node and the position of the next neighbour to visit
+        const frames: [string, number][] = [[start, 0]];
+        index.set(start, counter);
+        lowLink.set(start, counter++);
+        stack.push(start);
+        onStack.add(start);
+
+        while (frames.length > 0) {
+            const frame = frames[frames.length - 1];
+            const [node, next] = frame;
+            const targets = adjacency.get(node) || [];
+
+            if (next < targets.length) {
+                frame[1]++;
+                const target = targets[next];
+                if (!index.has(target)) {
+                    index.set(target, counter);
+                    lowLink.set(target, counter++);
+                    stack.push(target);
+                    onStack.add(target);
+                    frames.push([target, 0]);
+                } else if (onStack.has(target)) {
+                    lowLink.set(node, Math.min(lowLink.get(node)!, index.get(target)!));
+                }
+                continue;
+            }
+
+            frames.pop();
+            if (frames.length > 0) {
+                const parent = frames[frames.length - 1][0];
+                lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(node)!));
+            }
+            if (lowLink.get(node) === index.get(node)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== node);
+                components.push(component);
+            }
+        }
+    }
+    return components;
+}
+
+// Shortest loop from start back to itself, staying inside the cycle
+function exampleLoop(adjacency: Map<string, string[]>, members: Set<string>, start: string) {
+    const previous = new Map<string, string>();
+    const queue = [start];
+    for (let i = 0; i < queue.length; i++) {
+        const current = queue[i];
+        for (const target of adjacency.get(current) || []) {
+            // Self references don't count as a loop
+            if (!members.has(target) || target === current) continue;
+            if (target === start) {
+                const loop = [start];
+                for (let hop: string | undefined = current; hop !== start && hop; hop = previous.get(hop)) loop.splice(1, 0, hop);
+                return [...loop, start];
+            }
+            if (!previous.has(target)) {
+                previous.set(target, current);
+                queue.push(target);
+            }
+        }
+    }
+    return [];
+}
+
+// Circular dependencies: every strongly connected component with more than one
+// member, largest first. types restricts the graph, e.g. to ApexClass and ApexTrigger.
+export function findCycles(types?: string[]): DependencyCycle[] {
+    let adjacency = getDependencyAdjacency();
+    const components = new Map(getComponentsByIds(Array.from(new Set([...adjacency.keys(), ...Array.from(adjacency.values()).flat()])))
+        .map(c => [c.id, c]));
+
+    if (types && types.length > 0) {
+        const allowed = (id: string) => types.includes(components.get(id)?.type || '');
+        const filtered = new Map<string, string[]>();
+        adjacency.forEach((targets, source) => {
+            if (allowed(source)) filtered.set(source, targets.filter(allowed));
+        });
+        adjacency = filtered;
+    }
+
+    return stronglyConnectedComponents(adjacency)
+        .filter(scc => scc.length > 1)
+        .map(scc => {
+            const members = new Set(scc);
+            const sorted = scc.map(id => ({ id, name: components.get(id)?.name || id, type: components.get(id)?.type || 'Unknown' }))
+                .sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+            const edges = scc.flatMap(source => (adjacency.get(source) || [])
+                .filter(target => members.has(target) && target !== source)
+                .map(target => ({ sourceId: source, targetId: target })));
+            return { members: sorted, edges, example: exampleLoop(adjacency, members, sorted[0].id) };
+        })
+        .sort((a, b) => b.members.length - a.members.length);
+}
+
+export function printCycles(cycles: DependencyCycle[]) {
+    if (cycles.length === 0) {
+        console.log('No circular dependencies found.');
+        return;
+    }
+    const total = cycles.reduce((sum, c) => sum + c.members.length, 0);
+    console.log(`Found ${cycles.length} cycles involving ${total} components.`);
+
+    cycles.forEach((cycle, i) => {
+        const names = new Map(cycle.members.map(m => [m.id, m.name]));
+        console.log(`\nCycle ${i + 1} (${cycle.members.length} components, ${cycle.edges.length} edges)`);
+        console.log(`  Example: ${cycle.example.map(id => names.get(id)).join(' -> ')}`);
+        for (const member of cycle.members) {
+            const targets = cycle.edges.filter(e => e.sourceId === member.id).map(e => names.get(e.targetId));
+            console.log(`  [${member.type}] ${member.name} -> ${targets.join(', ')}`);
+        }
+    });
+}
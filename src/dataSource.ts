@@ -0,0 +1,53 @@
+import { createSfCliSource } from './sfCliSource';
+import { createFixtureSource } from './fixtureSource';
+
+// The Tooling API queries behind the Apex size/coverage stats and class entry points
+export type ApexStatsKind = 'classes' | 'triggers' | 'coverage' | 'classBodies';
+
+export const APEX_STATS_KINDS: ApexStatsKind[] = ['classes', 'triggers', 'coverage', 'classBodies'];
+
+// Tooling API caps MetadataComponentDependency queries at this many rows
+export const DEPENDENCY_RECORD_LIMIT = 2000;
+
+// Dependency query result. truncated is set when the API stopped returning rows
+// before everything arrived, so the caller should narrow the query and retry.
+export interface DependencyQueryResult {
+    records: any[];
+    truncated: boolean;
+}
+
+// Everything sync and serve need from an org. Records are returned in the shape
+// the Salesforce APIs use, so backends can be swapped without touching callers.
+// Failures are thrown, so sync can record and retry them.
+export interface DataSource {
+    name: string;
+    describeMetadata(): Promise<any[]>;
+    listMetadata(type: string): Promise<any[]>;
+    // MetadataComponentDependency rows whose MetadataComponentId is in ids
+    queryDependencies(ids: string[]): Promise<DependencyQueryResult>;
+    // MetadataComponentDependency rows where id is either side of the edge
+    queryDependenciesForId(id: string): Promise<any[]>;
+    queryApexStats(kind: ApexStatsKind): Promise<any[]>;
+    openRecord(id: string): Promise<void>;
+}
+
+const FIXTURE_PREFIX = 'fixture:';
+
+// Resolve the --source option: "sf" (default) uses the sf CLI against targetOrg,
+// "fixture:<dir>" replays recorded JSON responses from a directory.
+export function createDataSource(source: string | undefined, targetOrg?: string): DataSource {
+    if (!source || source === 'sf') {
+        if (!targetOrg) {
+            throw new Error('The sf source requires a target org (-o/--target-org)');
+        }
+        return createSfCliSource(targetOrg);
+    }
+    if (source.startsWith(FIXTURE_PREFIX)) {
+        const dir = source.slice(FIXTURE_PREFIX.length);
+        if (!dir) {
+            throw new Error('Fixture source needs a directory, e.g. --source fixture:./fixtures/my-org');
+        }
+        return createFixtureSource(dir);
+    }
+    throw new Error(`Unknown data source "${source}". Use "sf" or "fixture:<dir>".`);
+}
@@ -1,7 +1,40 @@
 import Database from 'better-sqlite3';
+import fs from 'fs';
 
 let db: Database.Database;
 
+// Attributes `sf org list metadata` returns for each component, stored as-is
+export const COMPONENT_ATTRIBUTES = [
+  'namespacePrefix',
+  'manageableState',
+  'createdByName',
+  'createdDate',
+  'lastModifiedByName',
+  'lastModifiedDate',
+  'fileName'
+] as const;
+
+export type ComponentRecord = {
+  id: string,
+  name: string,
+  type: string
+} & { [K in typeof COMPONENT_ATTRIBUTES[number]]?: string };
+
+// Each org gets its own database file in the working directory
+export function getOrgDatabasePath(targetOrg: string) {
+  const sanitizedOrg = targetOrg.replace(/[^a-zA-Z0-9.@_-]/g, '_');
+  return `dependencies_${sanitizedOrg}.db`;
+}
+
+// Org names of the databases in the working directory
+export function listOrgDatabases() {
+  return fs.readdirSync('.')
+    .map(file => file.match(/^dependencies_(.+)\.db$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => m[1])
+    .sort();
+}
+
 export function getDb() {
   if (!db) {
     const dbPath = process.env.DATABASE_PATH || 'dependencies.db';
@@ -19,10 +52,22 @@ export function initDb() {
       name TEXT,
       type TEXT,
       size INTEGER,
-      coverage INTEGER
+      coverage INTEGER,
+      entryPoint TEXT,
+      risk REAL,
+      fanIn INTEGER,
+      ${COMPONENT_ATTRIBUTES.map(a => `${a} TEXT`).join(',\n      ')}
     );
   `);
 
+  // Databases from older versions lack some of the attribute columns
+  for (const attribute of COMPONENT_ATTRIBUTES) {
+    ensureColumn('metadata_components', attribute, 'TEXT');
+  }
+  ensureColumn('metadata_components', 'entryPoint', 'TEXT');
+  ensureColumn('metadata_components', 'risk', 'REAL');
+  ensureColumn('metadata_components', 'fanIn', 'INTEGER');
+
   db.exec(`
     CREATE TABLE IF NOT EXISTS metadata_dependencies (
       sourceId TEXT,
@@ -31,25 +76,177 @@ export function initDb() {
     );
   `);
   
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_failures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      phase TEXT,
+      itemKey TEXT,
+      ids TEXT,
+      error TEXT,
+      attempts INTEGER,
+      failedAt TEXT
+    );
+  `);
+
+  // State of the current (or last interrupted) sync, one row only
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_state (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      mode TEXT,
+      status TEXT,
+      startedAt TEXT,
+      updatedAt TEXT
+    );
+  `);
+
+  // Work finished by the current sync: listed types, planned and completed dependency scans
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_checkpoints (
+      phase TEXT,
+      itemKey TEXT,
+      PRIMARY KEY (phase, itemKey)
+    );
+  `);
+
+  // One row per finished sync, with a frozen copy of its graph in the snapshot tables
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      org TEXT,
+      mode TEXT,
+      finishedAt TEXT,
+      componentCount INTEGER,
+      edgeCount INTEGER,
+      failureCount INTEGER
+    );
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS snapshot_components (
+      runId INTEGER,
+      id TEXT,
+      name TEXT,
+      type TEXT,
+      size INTEGER,
+      coverage INTEGER,
+      PRIMARY KEY (runId, id)
+    );
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS snapshot_dependencies (
+      runId INTEGER,
+      sourceId TEXT,
+      targetId TEXT,
+      PRIMARY KEY (runId, sourceId, targetId)
+    );
+  `);
+
+  // Search index, rebuilt after each sync: words of the API name for ranked prefix
+  // matches, trigrams for substring matches
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS component_search USING fts5(
+      id UNINDEXED, name, tokens, prefix='2 3'
+    );
+  `);
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS component_search_trigram USING fts5(
+      id UNINDEXED, name, tokenize='trigram'
+    );
+  `);
+
   db.exec(`CREATE INDEX IF NOT EXISTS idx_deps_source ON metadata_dependencies(sourceId);`);
   db.exec(`CREATE INDEX IF NOT EXISTS idx_deps_target ON metadata_dependencies(targetId);`);
 }
 
-export function insertComponents(components: { id: string, name: string, type: string }[]) {
+function ensureColumn(table: string, column: string, type: string) {
+  const columns = getDb().prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    getDb().exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+const ATTRIBUTE_COLUMNS = COMPONENT_ATTRIBUTES.join(', ');
+const ATTRIBUTE_PARAMS = COMPONENT_ATTRIBUTES.map(a => `@${a}`).join(', ');
+
+// Named parameters for a component, with missing attributes bound as NULL
+function componentParams(comp: ComponentRecord) {
+  const params: Record<string, string | null> = { id: comp.id, name: comp.name, type: comp.type };
+  for (const attribute of COMPONENT_ATTRIBUTES) {
+    params[attribute] = comp[attribute] ?? null;
+  }
+  return params;
+}
+
+export function insertComponents(components: ComponentRecord[]) {
   const stmt = getDb().prepare(`
-    INSERT OR IGNORE INTO metadata_components (id, name, type)
-    VALUES (@id, @name, @type)
+    INSERT OR IGNORE INTO metadata_components (id, name, type, ${ATTRIBUTE_COLUMNS})
+    VALUES (@id, @name, @type, ${ATTRIBUTE_PARAMS})
   `);
 
-  const insertMany = getDb().transaction((comps) => {
+  const insertMany = getDb().transaction((comps: ComponentRecord[]) => {
     for (const comp of comps) {
-      if (comp.id) stmt.run(comp);
+      if (comp.id) stmt.run(componentParams(comp));
     }
   });
 
   insertMany(components);
 }
 
+// Insert or refresh listed components, keeping size/coverage stats that are already stored
+export function upsertComponents(components: ComponentRecord[]) {
+  const stmt = getDb().prepare(`
+    INSERT INTO metadata_components (id, name, type, ${ATTRIBUTE_COLUMNS})
+    VALUES (@id, @name, @type, ${ATTRIBUTE_PARAMS})
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      type = excluded.type,
+      ${COMPONENT_ATTRIBUTES.map(a => `${a} = excluded.${a}`).join(',\n      ')}
+  `);
+
+  const upsertMany = getDb().transaction((comps: ComponentRecord[]) => {
+    for (const comp of comps) {
+      if (comp.id) stmt.run(componentParams(comp));
+    }
+  });
+
+  upsertMany(components);
+}
+
+// Map of component id -> lastModifiedDate for every component that came from a metadata listing
+export function getComponentModifiedDates() {
+  const rows = getDb().prepare(`
+    SELECT id, type, lastModifiedDate FROM metadata_components WHERE lastModifiedDate IS NOT NULL
+  `).all() as { id: string, type: string, lastModifiedDate: string }[];
+  return new Map(rows.map(r => [r.id, { type: r.type, lastModifiedDate: r.lastModifiedDate }]));
+}
+
+// Remove components together with every edge that touches them
+export function deleteComponents(ids: string[]) {
+  const deleteComp = getDb().prepare('DELETE FROM metadata_components WHERE id = ?');
+  const deleteEdges = getDb().prepare('DELETE FROM metadata_dependencies WHERE sourceId = ? OR targetId = ?');
+
+  const deleteMany = getDb().transaction((items: string[]) => {
+    for (const id of items) {
+      deleteEdges.run(id, id);
+      deleteComp.run(id);
+    }
+  });
+
+  deleteMany(ids);
+}
+
+// Drop the outgoing edges of components whose dependencies are about to be re-queried
+export function deleteEdgesForSources(ids: string[]) {
+  const stmt = getDb().prepare('DELETE FROM metadata_dependencies WHERE sourceId = ?');
+
+  const deleteMany = getDb().transaction((items: string[]) => {
+    for (const id of items) stmt.run(id);
+  });
+
+  deleteMany(ids);
+}
+
 export function updateComponentStats(stats: { id: string, size?: number, coverage?: number }[]) {
   const stmt = getDb().prepare(`
     UPDATE metadata_components 
@@ -72,6 +269,46 @@ export function updateComponentStats(stats: { id: string, size?: number, coverag
   updateMany(stats);
 }
 
+// Why a component is used even though nothing references it, e.g. "REST resource".
+// An empty string means it was checked and is none; components that were never
+// checked, like Apex classes whose body an org sync could not read, stay NULL.
+export function setEntryPoints(entries: { id: string, entryPoint?: string }[]) {
+  const stmt = getDb().prepare('UPDATE metadata_components SET entryPoint = @entryPoint WHERE id = @id');
+  getDb().transaction(() => {
+    for (const entry of entries) {
+      if (entry.entryPoint !== undefined) stmt.run({ id: entry.id, entryPoint: entry.entryPoint });
+    }
+  })();
+}
+
+// Replace every stored risk score, components without one are left NULL
+export function setRiskScores(scores: { id: string, risk: number, fanIn: number }[]) {
+  const db = getDb();
+  const stmt = db.prepare('UPDATE metadata_components SET risk = @risk, fanIn = @fanIn WHERE id = @id');
+  db.transaction(() => {
+    db.exec('UPDATE metadata_components SET risk = NULL, fanIn = NULL');
+    for (const score of scores) stmt.run(score);
+  })();
+}
+
+// Whether any component has coverage, i.e. coverage was synced at all
+export function hasCoverageData() {
+  return !!getDb().prepare('SELECT 1 FROM metadata_components WHERE coverage IS NOT NULL LIMIT 1').get();
+}
+
+export function hasRiskScores() {
+  return !!getDb().prepare('SELECT 1 FROM metadata_components WHERE risk IS NOT NULL LIMIT 1').get();
+}
+
+export function getRiskiestComponents(limit: number) {
+  return getDb().prepare(`
+    SELECT id, name, type, size, coverage, fanIn, risk FROM metadata_components
+    WHERE risk IS NOT NULL
+    ORDER BY risk DESC, name
+    LIMIT ?
+  `).all(limit) as { id: string, name: string, type: string, size: number | null, coverage: number | null, fanIn: number, risk: number }[];
+}
+
 export function insertDependencyEdges(edges: { sourceId: string, targetId: string }[]) {
   const stmt = getDb().prepare(`
     INSERT OR IGNORE INTO metadata_dependencies (sourceId, targetId)
@@ -121,15 +358,142 @@ export function getComponents() {
 export function clearDependencies() {
   getDb().exec('DELETE FROM metadata_components');
   getDb().exec('DELETE FROM metadata_dependencies');
+  getDb().exec('DELETE FROM component_search');
+  getDb().exec('DELETE FROM component_search_trigram');
 }
 
-export function searchComponents(query: string) {
-  const term = `%${query}%`;
-  return getDb().prepare('SELECT * FROM metadata_components WHERE name LIKE ? OR id LIKE ? LIMIT 50').all(term, term);
+// Words of an API name: AccountServiceTest -> Account Service Test, Invoice__c.Amount__c -> Invoice c Amount c
+export function splitNameTokens(name: string) {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
 }
 
-export function getAllDependencies() {
-  const sql = `
+export function rebuildSearchIndex() {
+  const db = getDb();
+  const components = db.prepare('SELECT id, name FROM metadata_components').all() as { id: string, name: string | null }[];
+  const insert = db.prepare('INSERT INTO component_search (id, name, tokens) VALUES (?, ?, ?)');
+
+  db.transaction(() => {
+    db.exec('DELETE FROM component_search');
+    db.exec('DELETE FROM component_search_trigram');
+    for (const c of components) {
+      const tokens = splitNameTokens(c.name || '');
+      // Initials too, so "ASH" finds AccountServiceHelper
+      if (tokens.length > 1) tokens.push(tokens.map(t => t[0]).join(''));
+      insert.run(c.id, c.name || '', tokens.join(' '));
+    }
+    db.exec('INSERT INTO component_search_trigram (id, name) SELECT id, COALESCE(name, \'\') FROM metadata_components');
+  })();
+}
+
+// Databases synced before the search index existed get it built on first search
+function ensureSearchIndex() {
+  const db = getDb();
+  const indexed = db.prepare('SELECT 1 FROM component_search LIMIT 1').get();
+  if (!indexed && db.prepare('SELECT 1 FROM metadata_components LIMIT 1').get()) {
+    rebuildSearchIndex();
+  }
+}
+
+export type CoverageBucket = 'none' | 'low' | 'medium' | 'high';
+
+export interface SearchOptions {
+  types?: string[];
+  // "" selects unmanaged components
+  namespaces?: string[];
+  coverage?: CoverageBucket[];
+  offset?: number;
+  limit?: number;
+}
+
+// Facet values per component, coverage buckets match the viewer's coverage colors
+const SEARCH_FACETS = {
+  type: 'c.type',
+  namespace: `COALESCE(c.namespacePrefix, '')`,
+  coverage: `CASE WHEN c.coverage IS NULL THEN 'none' WHEN c.coverage < 75 THEN 'low' WHEN c.coverage < 85 THEN 'medium' ELSE 'high' END`
+};
+
+type SearchFacet = keyof typeof SEARCH_FACETS;
+
+const FACET_OPTIONS: Record<SearchFacet, 'types' | 'namespaces' | 'coverage'> = {
+  type: 'types',
+  namespace: 'namespaces',
+  coverage: 'coverage'
+};
+
+// Ranked search: exact name or ID first, then name prefix, then every query word
+// prefixing a word of the name, then plain substring matches
+export function searchComponents(query: string, options: SearchOptions = {}) {
+  const db = getDb();
+  ensureSearchIndex();
+
+  const q = query.trim();
+  const words = splitNameTokens(q);
+  const params = {
+    q,
+    qLower: q.toLowerCase(),
+    words: words.map(w => `"${w}"*`).join(' '),
+    substring: `"${q.replace(/"/g, '""')}"`,
+    type: JSON.stringify(options.types || []),
+    namespace: JSON.stringify(options.namespaces || []),
+    coverage: JSON.stringify(options.coverage || []),
+    offset: options.offset || 0,
+    limit: options.limit || 50
+  };
+
+  // Collect matching IDs from the indexes first, so only those rows are read
+  const wordMatch = `SELECT id FROM component_search WHERE component_search MATCH @words`;
+  const candidates = ['SELECT id FROM metadata_components WHERE id = @q'];
+  if (words.length > 0) candidates.push(wordMatch);
+  // Trigrams need at least three characters
+  if (q.length >= 3) candidates.push(`SELECT id FROM component_search_trigram WHERE component_search_trigram MATCH @substring`);
+  const from = q
+    ? `(${candidates.join(' UNION ')}) m JOIN metadata_components c ON c.id = m.id`
+    : 'metadata_components c';
+
+  const facetWhere = (facet: SearchFacet) => options[FACET_OPTIONS[facet]]?.length
+    ? `${SEARCH_FACETS[facet]} IN (SELECT value FROM json_each(@${facet}))`
+    : '1 = 1';
+  const filtersExcept = (skip?: SearchFacet) => (Object.keys(SEARCH_FACETS) as SearchFacet[])
+    .filter(f => f !== skip)
+    .map(facetWhere)
+    .join(' AND ');
+
+  const rank = q ? `CASE
+      WHEN c.id = @q OR lower(c.name) = @qLower THEN 0
+      WHEN substr(lower(c.name), 1, length(@qLower)) = @qLower THEN 1
+      ${words.length > 0 ? `WHEN c.id IN (${wordMatch}) THEN 2` : ''}
+      ELSE 3 END` : '0';
+
+  const total = (db.prepare(`SELECT COUNT(*) as c FROM ${from} WHERE ${filtersExcept()}`).get(params) as { c: number }).c;
+  const results = db.prepare(`
+    SELECT c.*, ${rank} as rank FROM ${from}
+    WHERE ${filtersExcept()}
+    ORDER BY rank, ${q ? 'length(c.name), ' : ''}c.name
+    LIMIT @limit OFFSET @offset
+  `).all(params);
+
+  // Each facet is counted with the other facets applied, so its own choices stay visible
+  const facets = {} as Record<SearchFacet, { value: string, count: number }[]>;
+  for (const facet of Object.keys(SEARCH_FACETS) as SearchFacet[]) {
+    facets[facet] = db.prepare(`
+      SELECT ${SEARCH_FACETS[facet]} as value, COUNT(*) as count FROM ${from}
+      WHERE ${filtersExcept(facet)}
+      GROUP BY value ORDER BY count DESC, value
+    `).all(params) as { value: string, count: number }[];
+  }
+
+  return { total, offset: params.offset, limit: params.limit, results, facets };
+}
+
+// Component attributes as dependency row columns, e.g. s.namespacePrefix -> metadataComponentNamespacePrefix
+const attributeColumns = (alias: string, prefix: string) =>
+  COMPONENT_ATTRIBUTES.map(a => `${alias}.${a} as ${prefix}${a[0].toUpperCase()}${a.slice(1)}`).join(',\n      ');
+
+const DEPENDENCY_SELECT = `
     SELECT 
       d.sourceId || '-' || d.targetId as id,
       d.sourceId as metadataComponentId,
@@ -137,37 +501,329 @@ export function getAllDependencies() {
       COALESCE(s.type, 'Unknown') as metadataComponentType,
       s.size as metadataComponentSize,
       s.coverage as metadataComponentCoverage,
+      s.risk as metadataComponentRisk,
+      ${attributeColumns('s', 'metadataComponent')},
       d.targetId as refMetadataComponentId,
       COALESCE(t.name, d.targetId) as refMetadataComponentName,
       COALESCE(t.type, 'Unknown') as refMetadataComponentType,
       t.size as refMetadataComponentSize,
-      t.coverage as refMetadataComponentCoverage
+      t.coverage as refMetadataComponentCoverage,
+      t.risk as refMetadataComponentRisk,
+      ${attributeColumns('t', 'refMetadataComponent')}
     FROM metadata_dependencies d
     LEFT JOIN metadata_components s ON d.sourceId = s.id
     LEFT JOIN metadata_components t ON d.targetId = t.id
-  `;
-  return getDb().prepare(sql).all();
+`;
+
+export function getAllDependencies() {
+  return getDb().prepare(DEPENDENCY_SELECT).all();
 }
 
 export function getDependenciesForComponent(id: string) {
-  const sql = `
-    SELECT 
-      d.sourceId || '-' || d.targetId as id,
-      d.sourceId as metadataComponentId,
-      COALESCE(s.name, d.sourceId) as metadataComponentName,
-      COALESCE(s.type, 'Unknown') as metadataComponentType,
-      s.size as metadataComponentSize,
-      s.coverage as metadataComponentCoverage,
-      d.targetId as refMetadataComponentId,
-      COALESCE(t.name, d.targetId) as refMetadataComponentName,
-      COALESCE(t.type, 'Unknown') as refMetadataComponentType,
-      t.size as refMetadataComponentSize,
-      t.coverage as refMetadataComponentCoverage
-    FROM metadata_dependencies d
-    LEFT JOIN metadata_components s ON d.sourceId = s.id
-    LEFT JOIN metadata_components t ON d.targetId = t.id
+  const sql = `${DEPENDENCY_SELECT}
     WHERE d.sourceId = ? OR d.targetId = ?
   `;
   return getDb().prepare(sql).all(id, id);
 }
 
+// Outgoing edges of every component, for graph algorithms that run in memory
+export function getDependencyAdjacency() {
+  const adjacency = new Map<string, string[]>();
+  const edges = getDb().prepare('SELECT sourceId, targetId FROM metadata_dependencies').all() as { sourceId: string, targetId: string }[];
+  for (const e of edges) {
+    if (!adjacency.has(e.sourceId)) adjacency.set(e.sourceId, []);
+    adjacency.get(e.sourceId)!.push(e.targetId);
+  }
+  return adjacency;
+}
+
+export function getComponentsByIds(ids: string[]) {
+  return getDb().prepare('SELECT * FROM metadata_components WHERE id IN (SELECT value FROM json_each(?))')
+    .all(JSON.stringify(ids)) as (ComponentRecord & { size: number | null, coverage: number | null, entryPoint: string | null })[];
+}
+
+// API names are case-insensitive, so Foo.cls finds the ApexClass foo
+export function getComponentByName(type: string, name: string) {
+  return getDb().prepare('SELECT * FROM metadata_components WHERE type = ? AND name = ? COLLATE NOCASE')
+    .get(type, name) as (ComponentRecord & { size: number | null, coverage: number | null, entryPoint: string | null }) | undefined;
+}
+
+// Dependency rows whose source and target are both in ids
+export function getDependenciesAmong(ids: string[]) {
+  const sql = `${DEPENDENCY_SELECT}
+    WHERE d.sourceId IN (SELECT value FROM json_each(@ids)) AND d.targetId IN (SELECT value FROM json_each(@ids))
+  `;
+  return getDb().prepare(sql).all({ ids: JSON.stringify(ids) });
+}
+
+// "up" follows edges backwards to everything that depends on a component,
+// "down" follows them forwards to everything the component needs
+export type ImpactDirection = 'up' | 'down';
+
+export interface ImpactResult {
+  id: string;
+  name: string;
+  type: string;
+  size: number | null;
+  coverage: number | null;
+  direction: ImpactDirection;
+  distance: number;
+  // One shortest path, from the component the walk started at to this one
+  path: { id: string, name: string, type: string }[];
+}
+
+// Transitive dependents (up) or dependencies (down) of id, up to maxDepth hops away
+export function getImpact(id: string, direction: ImpactDirection, maxDepth: number): ImpactResult[] {
+  const [from, to] = direction === 'up' ? ['targetId', 'sourceId'] : ['sourceId', 'targetId'];
+  // walk has a row per way of reaching a component at a depth; via is the previous hop
+  const rows = getDb().prepare(`
+    WITH RECURSIVE walk(id, depth, via) AS MATERIALIZED (
+      SELECT @id, 0, NULL
+      UNION
+      SELECT d.${to}, w.depth + 1, w.id
+      FROM walk w JOIN metadata_dependencies d ON d.${from} = w.id
+      WHERE w.depth < @maxDepth
+    ),
+    shortest AS (
+      SELECT id, MIN(depth) as distance FROM walk GROUP BY id
+    )
+    SELECT s.id, s.distance,
+      (SELECT MIN(w.via) FROM walk w WHERE w.id = s.id AND w.depth = s.distance) as via,
+      COALESCE(c.name, s.id) as name, COALESCE(c.type, 'Unknown') as type, c.size, c.coverage
+    FROM shortest s
+    LEFT JOIN metadata_components c ON c.id = s.id
+    ORDER BY s.distance, name
+  `).all({ id, maxDepth }) as { id: string, distance: number, via: string | null, name: string, type: string, size: number | null, coverage: number | null }[];
+
+  // The previous hop of a component at distance n is at distance n - 1, so following via rebuilds a shortest path
+  const byId = new Map(rows.map(r => [r.id, r]));
+  return rows.filter(r => r.distance > 0).map(r => {
+    const path: ImpactResult['path'] = [];
+    for (let hop: typeof r | undefined = r; hop; hop = hop.via ? byId.get(hop.via) : undefined) {
+      path.unshift({ id: hop.id, name: hop.name, type: hop.type });
+    }
+    return { id: r.id, name: r.name, type: r.type, size: r.size, coverage: r.coverage, direction, distance: r.distance, path };
+  });
+}
+
+export function recordSyncFailures(failures: { phase: string, key: string, ids?: string[], error: string, attempts: number }[]) {
+  const stmt = getDb().prepare(`
+    INSERT INTO sync_failures (phase, itemKey, ids, error, attempts, failedAt)
+    VALUES (@phase, @key, @ids, @error, @attempts, @failedAt)
+  `);
+  const failedAt = new Date().toISOString();
+
+  const insertMany = getDb().transaction((items) => {
+    for (const item of items) {
+      stmt.run({ ...item, ids: item.ids ? JSON.stringify(item.ids) : null, failedAt });
+    }
+  });
+
+  insertMany(failures);
+}
+
+export function getSyncFailures() {
+  const rows = getDb().prepare('SELECT * FROM sync_failures ORDER BY id').all() as any[];
+  return rows.map(r => ({
+    id: r.id as number,
+    phase: r.phase,
+    key: r.itemKey as string,
+    ids: r.ids ? JSON.parse(r.ids) as string[] : undefined,
+    error: r.error as string,
+    attempts: r.attempts as number,
+    failedAt: r.failedAt as string
+  }));
+}
+
+// Clear recorded failures, optionally only those of the given phases
+export function clearSyncFailures(phases?: string[]) {
+  if (!phases) {
+    getDb().exec('DELETE FROM sync_failures');
+    return;
+  }
+  const stmt = getDb().prepare('DELETE FROM sync_failures WHERE phase = ?');
+  for (const phase of phases) stmt.run(phase);
+}
+
+export function runInTransaction<T>(fn: () => T): T {
+  return getDb().transaction(fn)();
+}
+
+export function startSyncState(mode: string) {
+  const now = new Date().toISOString();
+  getDb().exec('DELETE FROM sync_checkpoints');
+  getDb().prepare(`
+    INSERT OR REPLACE INTO sync_state (id, mode, status, startedAt, updatedAt)
+    VALUES (1, ?, 'running', ?, ?)
+  `).run(mode, now, now);
+}
+
+export function getSyncState() {
+  return getDb().prepare('SELECT mode, status, startedAt, updatedAt FROM sync_state WHERE id = 1').get() as
+    { mode: string, status: string, startedAt: string, updatedAt: string } | undefined;
+}
+
+export function finishSyncState() {
+  getDb().exec('DELETE FROM sync_checkpoints');
+  getDb().prepare(`UPDATE sync_state SET status = 'complete', updatedAt = ? WHERE id = 1`).run(new Date().toISOString());
+}
+
+export function addCheckpoints(phase: string, keys: string[]) {
+  const stmt = getDb().prepare('INSERT OR IGNORE INTO sync_checkpoints (phase, itemKey) VALUES (?, ?)');
+  const touch = getDb().prepare('UPDATE sync_state SET updatedAt = ? WHERE id = 1');
+
+  const insertMany = getDb().transaction((items: string[]) => {
+    for (const key of items) stmt.run(phase, key);
+    touch.run(new Date().toISOString());
+  });
+
+  insertMany(keys);
+}
+
+export function getCheckpoints(phase: string) {
+  const rows = getDb().prepare('SELECT itemKey FROM sync_checkpoints WHERE phase = ?').all(phase) as { itemKey: string }[];
+  return new Set(rows.map(r => r.itemKey));
+}
+
+export interface SyncRun {
+  id: number;
+  org: string;
+  mode: string;
+  finishedAt: string;
+  componentCount: number;
+  edgeCount: number;
+  failureCount: number;
+}
+
+// How many sync runs keep their snapshot when the config sets no keepRuns
+export const DEFAULT_KEEP_RUNS = 20;
+
+// Freeze the current graph as a new sync run and return its id. Runs older than
+// the last keepRuns are deleted together with their snapshots.
+export function createSnapshot(org: string, mode: string, failureCount: number, keepRuns = DEFAULT_KEEP_RUNS) {
+  const db = getDb();
+  const snapshot = db.transaction(() => {
+    const componentCount = (db.prepare('SELECT COUNT(*) as c FROM metadata_components').get() as { c: number }).c;
+    const edgeCount = (db.prepare('SELECT COUNT(*) as c FROM metadata_dependencies').get() as { c: number }).c;
+    const runId = db.prepare(`
+      INSERT INTO sync_runs (org, mode, finishedAt, componentCount, edgeCount, failureCount)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(org, mode, new Date().toISOString(), componentCount, edgeCount, failureCount).lastInsertRowid as number;
+
+    db.prepare(`
+      INSERT INTO snapshot_components (runId, id, name, type, size, coverage)
+      SELECT ?, id, name, type, size, coverage FROM metadata_components
+    `).run(runId);
+    db.prepare(`
+      INSERT INTO snapshot_dependencies (runId, sourceId, targetId)
+      SELECT ?, sourceId, targetId FROM metadata_dependencies
+    `).run(runId);
+
+    const pruned = 'SELECT id FROM sync_runs ORDER BY id DESC LIMIT -1 OFFSET ?';
+    const keep = Math.max(1, keepRuns);
+    db.prepare(`DELETE FROM snapshot_components WHERE runId IN (${pruned})`).run(keep);
+    db.prepare(`DELETE FROM snapshot_dependencies WHERE runId IN (${pruned})`).run(keep);
+    db.prepare(`DELETE FROM sync_runs WHERE id IN (${pruned})`).run(keep);
+    return runId;
+  });
+  return snapshot();
+}
+
+export function getSyncRuns() {
+  return getDb().prepare('SELECT * FROM sync_runs ORDER BY id').all() as SyncRun[];
+}
+
+export function getSyncRun(id: number) {
+  return getDb().prepare('SELECT * FROM sync_runs WHERE id = ?').get(id) as SyncRun | undefined;
+}
+
+// Components, edges and coverage that changed between two sync runs
+export function diffRuns(fromRun: number, toRun: number) {
+  const db = getDb();
+
+  const componentsOnlyIn = (a: number, b: number) => db.prepare(`
+    SELECT c.id, c.name, c.type FROM snapshot_components c
+    WHERE c.runId = ? AND NOT EXISTS (
+      SELECT 1 FROM snapshot_components o WHERE o.runId = ? AND o.id = c.id
+    )
+    ORDER BY c.type, c.name
+  `).all(a, b) as { id: string, name: string, type: string }[];
+
+  // Names come from whichever run still has the component
+  const edgesOnlyIn = (a: number, b: number) => db.prepare(`
+    SELECT e.sourceId, COALESCE(s.name, e.sourceId) as sourceName, COALESCE(s.type, 'Unknown') as sourceType,
+           e.targetId, COALESCE(t.name, e.targetId) as targetName, COALESCE(t.type, 'Unknown') as targetType
+    FROM snapshot_dependencies e
+    LEFT JOIN snapshot_components s ON s.runId = e.runId AND s.id = e.sourceId
+    LEFT JOIN snapshot_components t ON t.runId = e.runId AND t.id = e.targetId
+    WHERE e.runId = ? AND NOT EXISTS (
+      SELECT 1 FROM snapshot_dependencies o WHERE o.runId = ? AND o.sourceId = e.sourceId AND o.targetId = e.targetId
+    )
+    ORDER BY sourceName, targetName
+  `).all(a, b) as { sourceId: string, sourceName: string, sourceType: string, targetId: string, targetName: string, targetType: string }[];
+
+  const coverageChanges = db.prepare(`
+    SELECT t.id, t.name, t.type, f.coverage as fromCoverage, t.coverage as toCoverage
+    FROM snapshot_components t
+    JOIN snapshot_components f ON f.runId = ? AND f.id = t.id
+    WHERE t.runId = ? AND COALESCE(f.coverage, -1) != COALESCE(t.coverage, -1)
+    ORDER BY t.type, t.name
+  `).all(fromRun, toRun) as { id: string, name: string, type: string, fromCoverage: number | null, toCoverage: number | null }[];
+
+  return {
+    from: getSyncRun(fromRun),
+    to: getSyncRun(toRun),
+    addedComponents: componentsOnlyIn(toRun, fromRun),
+    removedComponents: componentsOnlyIn(fromRun, toRun),
+    addedEdges: edgesOnlyIn(toRun, fromRun),
+    removedEdges: edgesOnlyIn(fromRun, toRun),
+    coverageChanges
+  };
+}
+
+// Compare the open database with another org's database. Component IDs differ
+// between orgs, so components and edges are matched by type and name.
+export function compareWithDatabase(otherPath: string) {
+  if (!fs.existsSync(otherPath)) {
+    throw new Error(`Database not found: ${otherPath}`);
+  }
+  const db = getDb();
+  db.prepare('ATTACH DATABASE ? AS other').run(otherPath);
+  try {
+    const componentsOnlyIn = (a: string, b: string) => db.prepare(`
+      SELECT type, name FROM ${a}.metadata_components
+      EXCEPT
+      SELECT type, name FROM ${b}.metadata_components
+      ORDER BY type, name
+    `).all() as { type: string, name: string }[];
+
+    const edgesOf = (schema: string) => `
+      SELECT s.type as sourceType, s.name as sourceName, t.type as targetType, t.name as targetName
+      FROM ${schema}.metadata_dependencies d
+      JOIN ${schema}.metadata_components s ON s.id = d.sourceId
+      JOIN ${schema}.metadata_components t ON t.id = d.targetId
+    `;
+    const edgesOnlyIn = (a: string, b: string) => db.prepare(`
+      ${edgesOf(a)}
+      EXCEPT
+      ${edgesOf(b)}
+      ORDER BY sourceName, targetName
+    `).all() as { sourceType: string, sourceName: string, targetType: string, targetName: string }[];
+
+    const differences = db.prepare(`
+      SELECT l.type, l.name, l.size as size, r.size as otherSize, l.coverage as coverage, r.coverage as otherCoverage
+      FROM main.metadata_components l
+      JOIN other.metadata_components r ON r.type = l.type AND r.name = l.name
+      WHERE l.size IS NOT r.size OR l.coverage IS NOT r.coverage
+      ORDER BY l.type, l.name
+    `).all() as { type: string, name: string, size: number | null, otherSize: number | null, coverage: number | null, otherCoverage: number | null }[];
+
+    return {
+      onlyHere: { components: componentsOnlyIn('main', 'other'), edges: edgesOnlyIn('main', 'other') },
+      onlyOther: { components: componentsOnlyIn('other', 'main'), edges: edgesOnlyIn('other', 'main') },
+      differences
+    };
+  } finally {
+    db.exec('DETACH DATABASE other');
+  }
+}
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import { ApexStatsKind, DataSource, DEPENDENCY_RECORD_LIMIT } from './dataSource';
+
+// Fixture directory layout. Every file holds either the `--json` output of the
+// matching sf command or the bare array of records.
+//
+//   metadata-types.json        sf org list metadata-types
+//   metadata/<Type>.json       sf org list metadata -m <Type>
+//   dependencies.json          MetadataComponentDependency records
+//   dependencies/*.json        more MetadataComponentDependency records (one file per recorded batch)
+//   apex-classes.json          SELECT Id, LengthWithoutComments FROM ApexClass
+//   apex-triggers.json         SELECT Id, LengthWithoutComments FROM ApexTrigger
+//   apex-coverage.json         SELECT ... FROM ApexCodeCoverageAggregate
+//   apex-class-bodies.json     SELECT Id, Body FROM ApexClass WHERE NamespacePrefix = null
+const FILES = {
+    metadataTypes: 'metadata-types.json',
+    metadataDir: 'metadata',
+    dependencies: 'dependencies.json',
+    dependenciesDir: 'dependencies',
+    apexStats: {
+        classes: 'apex-classes.json',
+        triggers: 'apex-triggers.json',
+        coverage: 'apex-coverage.json',
+        classBodies: 'apex-class-bodies.json'
+    } as Record<ApexStatsKind, string>
+};
+
+// Pull the records out of an sf CLI JSON envelope, or accept a plain array
+function unwrap(json: any): any[] {
+    if (Array.isArray(json)) return json;
+    const result = json && json.result;
+    if (!result) return [];
+    if (Array.isArray(result)) return result;
+    if (Array.isArray(result.metadataObjects)) return result.metadataObjects;
+    if (Array.isArray(result.records)) return result.records;
+    return [result];
+}
+
+function readRecords(file: string, required = false): any[] {
+    if (!fs.existsSync(file)) {
+        if (required) throw new Error(`Fixture file not found: ${file}`);
+        return [];
+    }
+    try {
+        return unwrap(JSON.parse(fs.readFileSync(file, 'utf8')));
+    } catch (e: any) {
+        throw new Error(`Failed to read fixture ${file}: ${e.message}`);
+    }
+}
+
+// Highest batch number already recorded in a fixture directory, 0 if there is none
+function lastBatchNumber(dir: string) {
+    const batchDir = path.join(dir, FILES.dependenciesDir);
+    if (!fs.existsSync(batchDir)) return 0;
+    return fs.readdirSync(batchDir).reduce((last, file) => {
+        const match = /^batch-(\d+)\.json$/.exec(file);
+        return match ? Math.max(last, parseInt(match[1], 10)) : last;
+    }, 0);
+}
+
+function writeRecords(file: string, records: any[]) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(records, null, 2));
+}
+
+// Offline data source that replays recorded responses from a directory
+export function createFixtureSource(dir: string): DataSource {
+    if (!fs.existsSync(dir)) {
+        throw new Error(`Fixture directory not found: ${dir}`);
+    }
+
+    let dependencies: any[] | null = null;
+    const loadDependencies = () => {
+        if (!dependencies) {
+            dependencies = readRecords(path.join(dir, FILES.dependencies));
+            const batchDir = path.join(dir, FILES.dependenciesDir);
+            if (fs.existsSync(batchDir)) {
+                for (const file of fs.readdirSync(batchDir).filter(f => f.endsWith('.json')).sort()) {
+                    dependencies.push(...readRecords(path.join(batchDir, file)));
+                }
+            }
+        }
+        return dependencies;
+    };
+
+    return {
+        name: `fixture:${dir}`,
+
+        async describeMetadata() {
+            return readRecords(path.join(dir, FILES.metadataTypes), true);
+        },
+
+        async listMetadata(type: string) {
+            return readRecords(path.join(dir, FILES.metadataDir, `${type}.json`));
+        },
+
+        async queryDependencies(ids: string[]) {
+            const idSet = new Set(ids);
+            const records = loadDependencies().filter(d => idSet.has(d.MetadataComponentId));
+            // Mimic the Tooling API row limit so batch splitting behaves the same offline
+            if (records.length > DEPENDENCY_RECORD_LIMIT) {
+                return { records: records.slice(0, DEPENDENCY_RECORD_LIMIT), truncated: true };
+            }
+            return { records, truncated: false };
+        },
+
+        async queryDependenciesForId(id: string) {
+            return loadDependencies().filter(d => d.MetadataComponentId === id || d.RefMetadataComponentId === id);
+        },
+
+        async queryApexStats(kind: ApexStatsKind) {
+            return readRecords(path.join(dir, FILES.apexStats[kind]));
+        },
+
+        async openRecord(id: string) {
+            throw new Error(`Cannot open ${id}: fixture sources have no org to open records in`);
+        }
+    };
+}
+
+// Wrap a data source so every response it returns is also written to dir,
+// producing a fixture directory that createFixtureSource can replay later.
+// Recording into a directory again adds dependency batches after the existing
+// ones instead of overwriting them, e.g. for a later incremental sync.
+export function createRecordingSource(inner: DataSource, dir: string): DataSource {
+    let batch = lastBatchNumber(dir);
+
+    return {
+        name: `${inner.name} (recording to ${dir})`,
+
+        async describeMetadata() {
+            const types = await inner.describeMetadata();
+            writeRecords(path.join(dir, FILES.metadataTypes), types);
+            return types;
+        },
+
+        async listMetadata(type: string) {
+            const records = await inner.listMetadata(type);
+            if (records.length > 0) {
+                writeRecords(path.join(dir, FILES.metadataDir, `${type}.json`), records);
+            }
+            return records;
+        },
+
+        async queryDependencies(ids: string[]) {
+            const result = await inner.queryDependencies(ids);
+            const records = result.records;
+            // A truncated multi-id batch gets split and queried again, so only its retries are kept
+            if (records.length > 0 && (!result.truncated || ids.length === 1)) {
+                batch++;
+                writeRecords(path.join(dir, FILES.dependenciesDir, `batch-${String(batch).padStart(6, '0')}.json`), records);
+            }
+            return result;
+        },
+
+        queryDependenciesForId(id: string) {
+            return inner.queryDependenciesForId(id);
+        },
+
+        async queryApexStats(kind: ApexStatsKind) {
+            const records = await inner.queryApexStats(kind);
+            writeRecords(path.join(dir, FILES.apexStats[kind]), records);
+            return records;
+        },
+
+        openRecord(id: string) {
+            return inner.openRecord(id);
+        }
+    };
+}
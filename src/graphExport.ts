@@ -0,0 +1,221 @@
+import { toRegExp } from './syncConfig';
+
+export const EXPORT_FORMATS = ['graphml', 'gexf', 'dot', 'mermaid', 'csv'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// File extension and content type of each format, for downloads from the UI
+export const EXPORT_FILES: Record<ExportFormat, { extension: string, contentType: string }> = {
+    graphml: { extension: 'graphml', contentType: 'application/xml' },
+    gexf: { extension: 'gexf', contentType: 'application/xml' },
+    dot: { extension: 'dot', contentType: 'text/vnd.graphviz' },
+    mermaid: { extension: 'mmd', contentType: 'text/plain' },
+    csv: { extension: 'csv', contentType: 'text/csv' }
+};
+
+export interface ExportNode {
+    id: string;
+    name: string;
+    type: string;
+    size: number | null;
+    coverage: number | null;
+}
+
+export interface ExportGraph {
+    nodes: ExportNode[];
+    edges: { sourceId: string, targetId: string }[];
+}
+
+export interface ExportFilters {
+    types?: string[];
+    // Name patterns with * wildcards, e.g. Account*
+    names?: string[];
+    // Only the components within depth hops of root (an ID or a name)
+    root?: string;
+    depth?: number;
+    direction?: 'up' | 'down' | 'both';
+}
+
+// Nodes and edges from getAllDependencies rows
+export function toExportGraph(rows: any[]): ExportGraph {
+    const nodes = new Map<string, ExportNode>();
+    for (const row of rows) {
+        for (const prefix of ['metadataComponent', 'refMetadataComponent']) {
+            const id = row[`${prefix}Id`];
+            if (id && !nodes.has(id)) {
+                nodes.set(id, {
+                    id,
+                    name: row[`${prefix}Name`],
+                    type: row[`${prefix}Type`],
+                    size: row[`${prefix}Size`] ?? null,
+                    coverage: row[`${prefix}Coverage`] ?? null
+                });
+            }
+        }
+    }
+    return {
+        nodes: Array.from(nodes.values()),
+        edges: rows.map(r => ({ sourceId: r.metadataComponentId, targetId: r.refMetadataComponentId }))
+    };
+}
+
+function subgraphIds(graph: ExportGraph, root: string, depth: number, direction: 'up' | 'down' | 'both') {
+    const start = graph.nodes.find(n => n.id === root) ||
+        graph.nodes.find(n => n.name.toLowerCase() === root.toLowerCase());
+    if (!start) throw new Error(`Component not found: ${root}`);
+
+    const neighbours = new Map<string, string[]>();
+    const link = (from: string, to: string) => {
+        if (!neighbours.has(from)) neighbours.set(from, []);
+        neighbours.get(from)!.push(to);
+    };
+    for (const e of graph.edges) {
+        if (direction !== 'up') link(e.sourceId, e.targetId);
+        if (direction !== 'down') link(e.targetId, e.sourceId);
+    }
+
+    const reached = new Set([start.id]);
+    let frontier = [start.id];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+        frontier = frontier.flatMap(id => neighbours.get(id) || []).filter(id => !reached.has(id));
+        frontier.forEach(id => reached.add(id));
+    }
+    return reached;
+}
+
+// Keep the nodes that pass every filter and the edges between them
+export function filterGraph(graph: ExportGraph, filters: ExportFilters): ExportGraph {
+    const scope = filters.root ? subgraphIds(graph, filters.root, filters.depth ?? 1, filters.direction || 'both') : undefined;
+    const names = (filters.names || []).map(toRegExp);
+    const nodes = graph.nodes.filter(n =>
+        (!scope || scope.has(n.id)) &&
+        (!filters.types || filters.types.length === 0 || filters.types.includes(n.type)) &&
+        (names.length === 0 || names.some(pattern => pattern.test(n.name))));
+    const kept = new Set(nodes.map(n => n.id));
+    return { nodes, edges: graph.edges.filter(e => kept.has(e.sourceId) && kept.has(e.targetId)) };
+}
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const NODE_ATTRIBUTES = [
+    { key: 'type', graphml: 'string', gexf: 'string' },
+    { key: 'size', graphml: 'int', gexf: 'integer' },
+    { key: 'coverage', graphml: 'int', gexf: 'integer' }
+] as const;
+
+function toGraphml(graph: ExportGraph) {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+        ...NODE_ATTRIBUTES.map(a => `  <key id="${a.key}" for="node" attr.name="${a.key}" attr.type="${a.graphml}"/>`),
+        '  <graph id="dependencies" edgedefault="directed">'
+    ];
+    for (const n of graph.nodes) {
+        lines.push(`    <node id="${escapeXml(n.id)}">`);
+        lines.push(`      <data key="label">${escapeXml(n.name)}</data>`);
+        for (const { key } of NODE_ATTRIBUTES) {
+            if (n[key] !== null) lines.push(`      <data key="${key}">${escapeXml(String(n[key]))}</data>`);
+        }
+        lines.push('    </node>');
+    }
+    graph.edges.forEach((e, i) => {
+        lines.push(`    <edge id="e${i}" source="${escapeXml(e.sourceId)}" target="${escapeXml(e.targetId)}"/>`);
+    });
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n') + '\n';
+}
+
+function toGexf(graph: ExportGraph) {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+        '  <graph defaultedgetype="directed">',
+        '    <attributes class="node">',
+        ...NODE_ATTRIBUTES.map(a => `      <attribute id="${a.key}" title="${a.key}" type="${a.gexf}"/>`),
+        '    </attributes>',
+        '    <nodes>'
+    ];
+    for (const n of graph.nodes) {
+        lines.push(`      <node id="${escapeXml(n.id)}" label="${escapeXml(n.name)}">`);
+        lines.push('        <attvalues>');
+        for (const { key } of NODE_ATTRIBUTES) {
+            if (n[key] !== null) lines.push(`          <attvalue for="${key}" value="${escapeXml(String(n[key]))}"/>`);
+        }
+        lines.push('        </attvalues>', '      </node>');
+    }
+    lines.push('    </nodes>', '    <edges>');
+    graph.edges.forEach((e, i) => {
+        lines.push(`      <edge id="e${i}" source="${escapeXml(e.sourceId)}" target="${escapeXml(e.targetId)}"/>`);
+    });
+    lines.push('    </edges>', '  </graph>', '</gexf>');
+    return lines.join('\n') + '\n';
+}
+
+const quoteDot = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+function toDot(graph: ExportGraph) {
+    const lines = ['digraph dependencies {', '  node [shape=box];'];
+    for (const n of graph.nodes) {
+        const attributes = [`label=${quoteDot(`${n.name}\n${n.type}`).replace(/\n/g, '\\n')}`, `type=${quoteDot(n.type)}`];
+        if (n.size !== null) attributes.push(`size=${n.size}`);
+        if (n.coverage !== null) attributes.push(`coverage=${n.coverage}`);
+        lines.push(`  ${quoteDot(n.id)} [${attributes.join(', ')}];`);
+    }
+    for (const e of graph.edges) {
+        lines.push(`  ${quoteDot(e.sourceId)} -> ${quoteDot(e.targetId)};`);
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+// Mermaid node IDs must be plain words, so components are numbered
+function toMermaid(graph: ExportGraph) {
+    const ids = new Map(graph.nodes.map((n, i) => [n.id, `n${i}`]));
+    const label = (value: string) => value.replace(/"/g, '#quot;');
+    const lines = ['flowchart LR'];
+    for (const n of graph.nodes) {
+        const stats = [n.size !== null ? `size ${n.size}` : '', n.coverage !== null ? `${n.coverage}% covered` : ''].filter(Boolean).join(', ');
+        lines.push(`  ${ids.get(n.id)}["${label(n.name)}<br/><small>${label(n.type)}${stats ? `, ${stats}` : ''}</small>"]`);
+    }
+    for (const e of graph.edges) {
+        lines.push(`  ${ids.get(e.sourceId)} --> ${ids.get(e.targetId)}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+// One row per edge with both ends' attributes; components without edges get a row with an empty target
+function toCsv(graph: ExportGraph) {
+    const cell = (value: string | number | null) => {
+        const text = value === null ? '' : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const columns = (n?: ExportNode) => n ? [n.id, n.name, n.type, n.size, n.coverage] : ['', '', '', null, null];
+    const nodes = new Map(graph.nodes.map(n => [n.id, n]));
+    const lines = ['sourceId,sourceName,sourceType,sourceSize,sourceCoverage,targetId,targetName,targetType,targetSize,targetCoverage'];
+    for (const e of graph.edges) {
+        lines.push([...columns(nodes.get(e.sourceId)), ...columns(nodes.get(e.targetId))].map(cell).join(','));
+    }
+    const connected = new Set(graph.edges.flatMap(e => [e.sourceId, e.targetId]));
+    for (const n of graph.nodes.filter(n => !connected.has(n.id))) {
+        lines.push([...columns(n), ...columns()].map(cell).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+export function formatGraph(graph: ExportGraph, format: ExportFormat) {
+    switch (format) {
+        case 'graphml': return toGraphml(graph);
+        case 'gexf': return toGexf(graph);
+        case 'dot': return toDot(graph);
+        case 'mermaid': return toMermaid(graph);
+        case 'csv': return toCsv(graph);
+    }
+}
+
+export function parseExportFormat(value: string): ExportFormat {
+    if (!(EXPORT_FORMATS as readonly string[]).includes(value)) {
+        throw new Error(`Unknown export format "${value}", use one of ${EXPORT_FORMATS.join(', ')}`);
+    }
+    return value as ExportFormat;
+}
@@ -0,0 +1,61 @@
+import { diffRuns, getSyncRuns, SyncRun } from './db';
+
+export type RunDiff = ReturnType<typeof diffRuns>;
+
+// --to defaults to the latest run and --from to the run before it
+export function resolveRunPair(from?: string, to?: string): [number, number] {
+    const runs = getSyncRuns();
+    if (runs.length === 0) {
+        throw new Error('No sync runs recorded yet, run a sync first');
+    }
+
+    const parseRun = (value: string, option: string) => {
+        const id = parseInt(value, 10);
+        if (isNaN(id) || !runs.some(r => r.id === id)) {
+            throw new Error(`${option} ${value} is not a recorded sync run, see "dep-viewer history"`);
+        }
+        return id;
+    };
+
+    const toRun = to ? parseRun(to, '--to') : runs[runs.length - 1].id;
+    let fromRun: number;
+    if (from) {
+        fromRun = parseRun(from, '--from');
+    } else {
+        const earlier = runs.filter(r => r.id < toRun);
+        if (earlier.length === 0) {
+            throw new Error(`Run ${toRun} is the first recorded run, there is nothing to compare it with`);
+        }
+        fromRun = earlier[earlier.length - 1].id;
+    }
+    return [fromRun, toRun];
+}
+
+export function describeRun(run: SyncRun) {
+    return `#${run.id} ${run.finishedAt} (${run.mode}, ${run.org}): ` +
+        `${run.componentCount} components, ${run.edgeCount} edges` +
+        (run.failureCount > 0 ? `, ${run.failureCount} failures` : '');
+}
+
+const formatCoverage = (value: number | null) => value === null ? 'none' : `${value}%`;
+
+export function printDiff(diff: RunDiff) {
+    console.log(`\nFrom ${describeRun(diff.from!)}`);
+    console.log(`To   ${describeRun(diff.to!)}`);
+    console.log(`\nComponents: +${diff.addedComponents.length} -${diff.removedComponents.length}, ` +
+        `edges: +${diff.addedEdges.length} -${diff.removedEdges.length}, ` +
+        `coverage changes: ${diff.coverageChanges.length}`);
+
+    const section = (title: string, lines: string[]) => {
+        if (lines.length === 0) return;
+        console.log(`\n${title}:`);
+        lines.forEach(line => console.log(`  ${line}`));
+    };
+
+    section('Added components', diff.addedComponents.map(c => `+ [${c.type}] ${c.name}`));
+    section('Removed components', diff.removedComponents.map(c => `- [${c.type}] ${c.name}`));
+    section('Added dependencies', diff.addedEdges.map(e => `+ ${e.sourceName} (${e.sourceType}) -> ${e.targetName} (${e.targetType})`));
+    section('Removed dependencies', diff.removedEdges.map(e => `- ${e.sourceName} (${e.sourceType}) -> ${e.targetName} (${e.targetType})`));
+    section('Coverage changes', diff.coverageChanges.map(c =>
+        `~ [${c.type}] ${c.name}: ${formatCoverage(c.fromCoverage)} -> ${formatCoverage(c.toCoverage)}`));
+}
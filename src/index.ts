@@ -1,10 +1,30 @@
 #!/usr/bin/env node
 import 'dotenv/config';
 import fs from 'fs';
+import path from 'path';
 import { Command } from 'commander';
-import { fetchAllMetadata, fetchApexStats, fetchAllDependencies } from './salesforce';
-import { initDb, clearDependencies, insertComponents, updateComponentStats, insertDependencyEdges } from './db';
+import { initDb, clearDependencies, insertComponents, updateComponentStats, insertDependencyEdges, createSnapshot, getSyncRuns, diffRuns,
+  getOrgDatabasePath, compareWithDatabase, rebuildSearchIndex, setEntryPoints, getAllDependencies } from './db';
 import { startServer } from './server';
+import { createDataSource, DataSource } from './dataSource';
+import { syncOrg, reportSyncResult } from './sync';
+import { scanProject } from './sourceScanner';
+import { createRecordingSource } from './fixtureSource';
+import { resolveRunPair, describeRun, printDiff } from './history';
+import { printComparison } from './compare';
+import { CONFIG_FILE, loadKeepRuns, loadSyncFilters, SyncFilters } from './syncConfig';
+import { selectMetadataTypes } from './salesforce';
+import { findCycles, printCycles } from './cycles';
+import { findCommunities, printCommunities } from './communities';
+import { findUnused, printUnused, UNUSED_CANDIDATE_TYPES } from './unused';
+import { resolveChangedFiles, analyzeChangeImpact, printChangeImpact } from './changeImpact';
+import { resolveComponent, printDependencies, printFind, QueryFormat } from './query';
+import { checkPackages, printPackageCheck } from './packages';
+import { RULES_FILE, loadRules, checkRules, printRuleCheck } from './rules';
+import { REPORT_FORMATS, buildReport, parseReportFormat, renderReport } from './report';
+import { getRiskiest, printRiskiest, updateRiskScores } from './risk';
+import { createBundle, writeBundle, readBundle, importBundle } from './bundle';
+import { EXPORT_FORMATS, filterGraph, formatGraph, parseExportFormat, toExportGraph } from './graphExport';
 
 const program = new Command();
 
@@ -13,8 +33,7 @@ function getDatabasePath(targetOrg?: string): string {
     return process.env.DATABASE_PATH;
   }
   if (targetOrg) {
-    const sanitizedOrg = targetOrg.replace(/[^a-zA-Z0-9.@_-]/g, '_');
-    return `dependencies_${sanitizedOrg}.db`;
+    return getOrgDatabasePath(targetOrg);
   }
   return 'dependencies.db';
 }
@@ -50,12 +69,31 @@ program.command('sync')
   .description('Download metadata dependencies from Salesforce')
   .requiredOption('-o, --target-org <org>', 'Target Salesforce Org (username or alias)')
   .option('-c, --clean', 'Delete the existing database before syncing')
+  .option('-s, --source <source>', 'Data source: "sf" (default) or "fixture:<dir>" to replay recorded responses', 'sf')
+  .option('--record <dir>', 'Also write every response to <dir> as fixtures for --source fixture:<dir>')
+  .option('-i, --incremental', 'Only re-query dependencies for components added, changed or removed since the last sync')
+  .option('--retry-failed', 'Only re-run the metadata types, stats queries and ID batches that failed in earlier syncs')
+  .option('-r, --resume', 'Continue an interrupted sync from its last checkpoint')
+  .option('--fail-on-error', 'Exit with a non-zero code when any part of the sync failed')
+  .option('--config <path>', 'Include/exclude rules for types, names and namespaces', CONFIG_FILE)
+  .option('--dry-run', 'Only print which metadata types would be scanned')
   .action(async (options) => {
     try {
+      const filters = loadSyncFilters(options.targetOrg, options.config);
+      const keepRuns = loadKeepRuns(options.config);
+      if (options.dryRun) {
+        await printSyncPlan(createDataSource(options.source, options.targetOrg), options.targetOrg, filters);
+        return;
+      }
+
       const dbPath = getDatabasePath(options.targetOrg);
       // Ensure db module uses this path
       process.env.DATABASE_PATH = dbPath;
       
+      if ([options.clean, options.incremental, options.retryFailed, options.resume].filter(Boolean).length > 1) {
+         throw new Error('--clean, --incremental, --retry-failed and --resume cannot be used together');
+      }
+
       if (options.clean) {
          if (fs.existsSync(dbPath)) {
            console.log(`[Clean] Deleting existing database: ${dbPath}`);
@@ -63,86 +101,546 @@ program.command('sync')
          }
       }
 
+      let source = createDataSource(options.source, options.targetOrg);
+      if (options.record) {
+         source = createRecordingSource(source, options.record);
+      }
+
       console.log(`\n=== Starting Sync for org: ${options.targetOrg} ===`);
       console.log(`Database: ${dbPath}`);
+      console.log(`Source: ${source.name}`);
       
       initDb();
-      if (!options.clean) {
-        clearDependencies(); // Only needed if we didn't just delete the DB
+
+      // Everything finished so far is already in the DB, so an interrupted sync can be resumed
+      process.on('SIGINT', () => {
+        console.log(`\nInterrupted. Run "dep-viewer sync -o ${options.targetOrg} --resume" to continue.`);
+        process.exit(130);
+      });
+
+      const failures = await syncOrg(source, {
+        incremental: options.incremental,
+        retryFailed: options.retryFailed,
+        resume: options.resume,
+        cleaned: options.clean,
+        filters
+      });
+
+      const mode = options.retryFailed ? 'retry-failed' : options.resume ? 'resume' : options.incremental ? 'incremental' : 'full';
+      const runId = createSnapshot(options.targetOrg, mode, failures.length, keepRuns);
+      console.log(`      Recorded as sync run #${runId}.`);
+
+      reportSyncResult(failures, options.targetOrg);
+      if (failures.length > 0 && options.failOnError) {
+        process.exitCode = 1;
       }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
 
-      // 1. Fetch all metadata components (nodes)
-      const allMeta = await fetchAllMetadata(options.targetOrg);
-      
-      const componentRecords = allMeta.map((m: any) => ({
-          id: m.id || m.fileName, // fallback for components without ID
-          name: m.fullName,
-          type: m.type
-      })).filter((c: any) => c.id); // Must have ID/Key
-      
-      console.log(`      Saving ${componentRecords.length} components...`);
-      insertComponents(componentRecords);
-      
-      // 2. Fetch stats (size/coverage)
-      const stats = await fetchApexStats(options.targetOrg);
-      console.log(`      Saving stats for ${stats.length} components...`);
-      updateComponentStats(stats);
+async function printSyncPlan(source: DataSource, targetOrg: string, filters: SyncFilters) {
+  console.log(`\n=== Dry run for org: ${targetOrg} ===`);
+  const { included, excluded } = selectMetadataTypes(await source.describeMetadata(), filters);
 
-      // 3. Fetch dependencies
-      const dependencies = await fetchAllDependencies(options.targetOrg, allMeta);
-      
-      // Extract any components found in dependencies that we might have missed in the initial listing
-      const extraComponentsMap = new Map<string, { id: string, name: string, type: string }>();
-      
-      for (const d of dependencies) {
-          if (d.MetadataComponentId) {
-              extraComponentsMap.set(d.MetadataComponentId, {
-                  id: d.MetadataComponentId,
-                  name: d.MetadataComponentName,
-                  type: d.MetadataComponentType
-              });
-          }
-          if (d.RefMetadataComponentId) {
-              extraComponentsMap.set(d.RefMetadataComponentId, {
-                  id: d.RefMetadataComponentId,
-                  name: d.RefMetadataComponentName,
-                  type: d.RefMetadataComponentType
-              });
-          }
+  const describeRule = (label: string, rule?: { include?: string[], exclude?: string[] }) => {
+    const include = rule?.include?.length ? rule.include.join(', ') : 'all';
+    const exclude = rule?.exclude?.length ? rule.exclude.join(', ') : 'none';
+    console.log(`${label}: include ${include}; exclude ${exclude}`);
+  };
+  describeRule('Names', filters.names);
+  describeRule('Namespaces', filters.namespaces);
+
+  console.log(`\nWould scan ${included.length} metadata types:`);
+  included.forEach(type => console.log(`  + ${type}`));
+  console.log(`\nWould skip ${excluded.length} metadata types:`);
+  excluded.forEach(type => console.log(`  - ${type}`));
+}
+
+program.command('scan')
+  .description('Build the dependency graph from a local SFDX project, without an org connection')
+  .argument('<path>', 'Path to the SFDX project (the folder with sfdx-project.json)')
+  .option('-o, --target-org <name>', 'Name that selects the database, as with serve -o (defaults to the project folder name)')
+  .action((projectPath, options) => {
+    try {
+      const name = options.targetOrg || path.basename(path.resolve(projectPath));
+      const dbPath = getDatabasePath(name);
+      process.env.DATABASE_PATH = dbPath;
+
+      console.log(`\n=== Scanning SFDX project: ${projectPath} ===`);
+      console.log(`Database: ${dbPath}`);
+
+      const startTime = Date.now();
+      const result = scanProject(projectPath);
+      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+      console.log(`      ✓ Scanned ${result.files} files in ${duration}s.`);
+
+      initDb();
+      clearDependencies();
+
+      console.log(`      Saving ${result.components.length} components...`);
+      insertComponents(result.components);
+      updateComponentStats(result.components.filter(c => c.size !== undefined));
+      setEntryPoints(result.components);
+
+      console.log(`      Saving ${result.edges.length} dependency edges...`);
+      insertDependencyEdges(result.edges);
+      rebuildSearchIndex();
+      updateRiskScores();
+
+      const runId = createSnapshot(name, 'scan', 0, loadKeepRuns());
+      console.log(`      Recorded as sync run #${runId}.`);
+
+      console.log(`\nDone! Run "dep-viewer serve -o ${name}" to view the graph.`);
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+program.command('history')
+  .description('List the recorded sync runs')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .action((options) => {
+    process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+    initDb();
+    const runs = getSyncRuns();
+    if (runs.length === 0) {
+      console.log('No sync runs recorded yet.');
+      return;
+    }
+    runs.forEach(run => console.log(describeRun(run)));
+  });
+
+program.command('diff')
+  .description('Show components, dependencies and coverage that changed between two sync runs')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('--from <run>', 'Earlier sync run (defaults to the run before --to)')
+  .option('--to <run>', 'Later sync run (defaults to the latest run)')
+  .option('--json', 'Print the diff as JSON')
+  .action((options) => {
+    try {
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      initDb();
+      const [fromRun, toRun] = resolveRunPair(options.from, options.to);
+      const diff = diffRuns(fromRun, toRun);
+      if (options.json) {
+        console.log(JSON.stringify(diff, null, 2));
+      } else {
+        printDiff(diff);
       }
-      
-      const extraComponents = Array.from(extraComponentsMap.values());
-      if (extraComponents.length > 0) {
-          console.log(`      Ensuring ${extraComponents.length} components from dependencies exist in DB...`);
-          insertComponents(extraComponents);
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+program.command('compare')
+  .description('Compare the synced dependency graphs of two orgs')
+  .requiredOption('-o, --target-org <org>', 'Org to compare, given twice: -o prod -o uat', (org: string, orgs: string[]) => [...orgs, org], [])
+  .option('--json', 'Print the comparison as JSON')
+  .action((options) => {
+    try {
+      const orgs: string[] = options.targetOrg;
+      if (orgs.length !== 2) {
+        throw new Error('compare needs exactly two orgs, e.g. -o prod -o uat');
+      }
+      const [left, right] = orgs;
+      process.env.DATABASE_PATH = getOrgDatabasePath(left);
+      if (!fs.existsSync(process.env.DATABASE_PATH)) {
+        throw new Error(`Database not found: ${process.env.DATABASE_PATH}, run "dep-viewer sync -o ${left}" first`);
       }
 
-      const edges = dependencies.map((d: any) => ({
-          sourceId: d.MetadataComponentId,
-          targetId: d.RefMetadataComponentId
-      })).filter((e: any) => e.sourceId && e.targetId);
-      
-      console.log(`      Saving ${edges.length} dependency edges...`);
-      insertDependencyEdges(edges);
+      const comparison = compareWithDatabase(getOrgDatabasePath(right));
+      if (options.json) {
+        console.log(JSON.stringify({ left, right, ...comparison }, null, 2));
+      } else {
+        printComparison(left, right, comparison);
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+program.command('cycles')
+  .description('Find circular dependencies (strongly connected components) in the synced graph')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('-t, --types <types>', 'Only consider these component types, comma separated (e.g. ApexClass,ApexTrigger)')
+  .option('--json', 'Print the cycles as JSON')
+  .action((options) => {
+    try {
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      initDb();
+      const cycles = findCycles(options.types ? options.types.split(',') : undefined);
+      if (options.json) {
+        console.log(JSON.stringify(cycles, null, 2));
+      } else {
+        printCycles(cycles);
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+program.command('risk')
+  .description('Rank Apex components by risk: low coverage, large size and many transitive dependents')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('--limit <count>', 'How many components to list', '20')
+  .option('--refresh', 'Recompute the stored scores first')
+  .option('--json', 'Print the ranking as JSON')
+  .action((options) => {
+    try {
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      initDb();
+      if (options.refresh) updateRiskScores();
+      const ranking = getRiskiest(parseInt(options.limit, 10));
+      if (options.json) {
+        console.log(JSON.stringify(ranking, null, 2));
+      } else {
+        printRiskiest(ranking);
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+program.command('communities')
+  .description('Propose modules (e.g. package boundaries) with Louvain community detection')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('--exclude-standard', 'Leave out standard objects')
+  .option('--hub-degree <count>', 'Leave out components connected to more than this many others')
+  .option('--resolution <value>', 'Above 1 favours smaller modules, below 1 larger ones', '1')
+  .option('--json', 'Print the modules as JSON')
+  .action((options) => {
+    try {
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      initDb();
+      const result = findCommunities({
+        excludeStandard: options.excludeStandard,
+        hubDegree: options.hubDegree !== undefined ? parseInt(options.hubDegree, 10) : undefined,
+        resolution: parseFloat(options.resolution) || 1
+      });
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printCommunities(result);
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+program.command('unused')
+  .description('List components nothing references, as deletion candidates')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('-t, --types <types>', `Component types to report, comma separated (default: ${UNUSED_CANDIDATE_TYPES.join(',')})`)
+  .option('--json', 'Print the report as JSON')
+  .action((options) => {
+    try {
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      initDb();
+      const report = findUnused(options.types ? options.types.split(',') : undefined);
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printUnused(report);
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+program.command('export')
+  .description('Export the dependency graph for Gephi, yEd, Graphviz, Mermaid or a spreadsheet')
+  .requiredOption('-f, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`)
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('-t, --types <types>', 'Only export these component types, comma separated')
+  .option('-n, --name <patterns>', 'Only export components whose name matches, comma separated, * for wildcard')
+  .option('--root <component>', 'Only export the components around this one (ID or name)')
+  .option('--depth <hops>', 'How far from --root to go', '1')
+  .option('--direction <direction>', 'Follow dependencies (down), dependents (up) or both from --root', 'both')
+  .option('--output <file>', 'Write to a file instead of stdout')
+  .action((options) => {
+    try {
+      const format = parseExportFormat(options.format);
+      if (!['up', 'down', 'both'].includes(options.direction)) {
+        throw new Error('--direction must be up, down or both');
+      }
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      initDb();
+      const graph = filterGraph(toExportGraph(getAllDependencies()), {
+        types: options.types ? options.types.split(',') : undefined,
+        names: options.name ? options.name.split(',') : undefined,
+        root: options.root,
+        depth: parseInt(options.depth, 10),
+        direction: options.direction
+      });
+      const output = formatGraph(graph, format);
+      if (options.output) {
+        fs.writeFileSync(options.output, output);
+        console.log(`✓ Exported ${graph.nodes.length} components and ${graph.edges.length} dependencies to ${options.output}`);
+      } else {
+        process.stdout.write(output);
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+program.command('report')
+  .description('Write a self-contained HTML or Markdown report of the org\'s dependencies')
+  .option('-f, --format <format>', `Report format: ${REPORT_FORMATS.join(', ')}`, 'html')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('--output <file>', 'Report file to write (defaults to <org>-report.<format>)')
+  .action((options) => {
+    try {
+      const format = parseReportFormat(options.format);
+      const dbPath = getDatabasePath(options.targetOrg);
+      if (!fs.existsSync(dbPath)) {
+        throw new Error(`Database not found: ${dbPath}`);
+      }
+      process.env.DATABASE_PATH = dbPath;
+      initDb();
+      const runs = getSyncRuns();
+      const org = options.targetOrg || (runs.length > 0 ? runs[runs.length - 1].org : 'default');
+      const report = buildReport(org);
+      const file = options.output || `${org.replace(/[^a-zA-Z0-9.@_-]/g, '_')}-report.${format}`;
+      fs.writeFileSync(file, renderReport(report, format));
+      console.log(`✓ Wrote the report for ${report.componentCount} components and ${report.edgeCount} dependencies to ${file}`);
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+// --json and --tree select the output of the query commands, a table is the default
+function queryFormat(options: { json?: boolean, tree?: boolean }): QueryFormat {
+  if (options.json && options.tree) {
+    throw new Error('--json and --tree cannot be used together');
+  }
+  return options.json ? 'json' : options.tree ? 'tree' : 'table';
+}
+
+for (const [name, direction, description] of [
+  ['deps', 'down', 'List what a component uses, directly and transitively'],
+  ['usages', 'up', 'List what uses a component, directly and transitively']
+] as const) {
+  program.command(name)
+    .description(description)
+    .argument('<component>', 'Component name or ID')
+    .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+    .option('--depth <hops>', 'How many hops to follow', '1')
+    .option('-t, --type <types>', 'Only list these component types, comma separated')
+    .option('--json', 'Print the results as JSON')
+    .option('--tree', 'Print the results as a tree')
+    .action((component, options) => {
+      try {
+        const format = queryFormat(options);
+        process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+        initDb();
+        const depth = parseInt(options.depth, 10) || 1;
+        printDependencies(resolveComponent(component), direction, depth, format, options.type ? options.type.split(',') : undefined);
+      } catch (err: any) {
+        console.error('Error:', err.message);
+        process.exit(1);
+      }
+    });
+}
+
+program.command('impact')
+  .description('Map changed source files to the components and Apex tests they impact, for CI')
+  .requiredOption('--changed <files...>', 'Changed source files, or one git range such as origin/main...HEAD')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('--repo <path>', 'Git repository to resolve a range in', '.')
+  .option('--depth <hops>', 'How many hops of dependents to follow', '10')
+  .option('--max-impacted <count>', 'Exit with code 1 when more components than this are impacted')
+  .option('--json', 'Print the impact as JSON')
+  .action(async (options) => {
+    try {
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      if (!fs.existsSync(process.env.DATABASE_PATH)) {
+        throw new Error(`Database not found: ${process.env.DATABASE_PATH}`);
+      }
+      initDb();
+      const files = await resolveChangedFiles(options.changed, options.repo);
+      const impact = analyzeChangeImpact(files, parseInt(options.depth, 10) || 10);
+      const threshold = options.maxImpacted !== undefined ? parseInt(options.maxImpacted, 10) : undefined;
+      const exceeded = threshold !== undefined && impact.impacted.length > threshold;
+
+      if (options.json) {
+        console.log(JSON.stringify({ ...impact, threshold: threshold ?? null, exceeded }, null, 2));
+      } else {
+        printChangeImpact(impact);
+      }
+      if (exceeded) {
+        console.error(`\n${impact.impacted.length} impacted components exceed the limit of ${threshold}.`);
+        // Not process.exit, which can cut off the JSON still being written to a pipe
+        process.exitCode = 1;
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
 
-      console.log(`\nDone! Sync complete.`);
+program.command('find')
+  .description('Search components by name, * for wildcard')
+  .argument('<pattern>', 'Name, part of a name, or a pattern such as Account*Service')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('--depth <hops>', 'Hops to count uses and usages over', '1')
+  .option('-t, --type <types>', 'Only list these component types, comma separated')
+  .option('--limit <count>', 'Maximum number of results', '50')
+  .option('--json', 'Print the results as JSON')
+  .option('--tree', 'Print the results grouped by type')
+  .action((pattern, options) => {
+    try {
+      const format = queryFormat(options);
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      initDb();
+      printFind(pattern, parseInt(options.depth, 10) || 1, format, options.type ? options.type.split(',') : undefined,
+        parseInt(options.limit, 10) || 50);
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+const bundle = program.command('bundle')
+  .description('Share a synced database as a single file, for people without access to the org');
+
+bundle.command('export')
+  .description('Write the components, dependencies and stats of a database to a compressed bundle')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('--output <file>', 'Bundle file to write (defaults to <org>.depbundle)')
+  .action((options) => {
+    try {
+      const dbPath = getDatabasePath(options.targetOrg);
+      if (!fs.existsSync(dbPath)) {
+        throw new Error(`Database not found: ${dbPath}`);
+      }
+      process.env.DATABASE_PATH = dbPath;
+      initDb();
+      const runs = getSyncRuns();
+      const org = options.targetOrg || (runs.length > 0 ? runs[runs.length - 1].org : 'default');
+      const contents = createBundle(org);
+      const file = options.output || `${org.replace(/[^a-zA-Z0-9.@_-]/g, '_')}.depbundle`;
+      writeBundle(contents, file);
+      console.log(`✓ Bundled ${contents.components.length} components and ${contents.edges.length} dependencies of ${org} to ${file}`);
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+bundle.command('import')
+  .description('Load a bundle into a new database')
+  .argument('<file>', 'Bundle written by "bundle export"')
+  .option('-o, --target-org <name>', 'Name that selects the database (defaults to the org in the bundle)')
+  .option('--force', 'Replace the database if it already exists')
+  .action((file, options) => {
+    try {
+      const contents = readBundle(file);
+      const name = options.targetOrg || contents.org;
+      const dbPath = getDatabasePath(name);
+      if (fs.existsSync(dbPath)) {
+        if (!options.force) {
+          throw new Error(`Database already exists: ${dbPath}, use --force to replace it`);
+        }
+        fs.unlinkSync(dbPath);
+      }
+      process.env.DATABASE_PATH = dbPath;
+      initDb();
+      const runId = importBundle(contents);
+      console.log(`✓ Imported ${contents.components.length} components and ${contents.edges.length} dependencies into ${dbPath} (sync run #${runId}).`);
+      console.log(`  Org: ${contents.org}, synced ${contents.syncedAt || 'at an unknown time'}, bundled ${contents.exportedAt}`);
+      console.log(`\nDone! Run "dep-viewer serve -o ${name}" to view the graph.`);
     } catch (err: any) {
       console.error('Error:', err.message);
       process.exit(1);
     }
   });
 
+const packages = program.command('packages')
+  .description('Work with the package directories of an SFDX project');
+
+packages.command('check')
+  .description('Check every dependency against the package dependencies declared in sfdx-project.json')
+  .requiredOption('--project <path>', 'Path to the SFDX project (the folder with sfdx-project.json)')
+  .option('-o, --target-org <org>', 'Target Salesforce Org (or scan name) to select database')
+  .option('--json', 'Print the result as JSON')
+  .action((options) => {
+    try {
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      if (!fs.existsSync(process.env.DATABASE_PATH)) {
+        throw new Error(`Database not found: ${process.env.DATABASE_PATH}`);
+      }
+      initDb();
+      const check = checkPackages(options.project);
+      if (options.json) {
+        console.log(JSON.stringify(check, null, 2));
+      } else {
+        printPackageCheck(check);
+      }
+      if (check.violations.length > 0 || check.cycles.length > 0 || check.orderErrors.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
 
+program.command('check')
+  .description('Check the stored dependencies against the architecture rules file')
+  .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('--rules <path>', 'Allowed and forbidden dependencies by type, name and namespace', RULES_FILE)
+  .option('--json', 'Print the result as JSON')
+  .action((options) => {
+    try {
+      const rules = loadRules(options.rules);
+      process.env.DATABASE_PATH = getDatabasePath(options.targetOrg);
+      if (!fs.existsSync(process.env.DATABASE_PATH)) {
+        throw new Error(`Database not found: ${process.env.DATABASE_PATH}`);
+      }
+      initDb();
+      const check = checkRules(rules);
+      if (options.json) {
+        console.log(JSON.stringify(check, null, 2));
+      } else {
+        printRuleCheck(check);
+      }
+      if (check.violations.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (err: any) {
+      console.error('Error:', err.message);
+      process.exit(1);
+    }
+  });
 
 program.command('serve')
   .description('Start the web server')
   .option('-p, --port <port>', 'Port to run on', '3000')
   .option('-o, --target-org <org>', 'Target Salesforce Org to select database')
+  .option('-s, --source <source>', 'Data source for live lookups: "sf" (default) or "fixture:<dir>"')
+  .option('--project <path>', 'SFDX project whose package directories the viewer can color and group by')
+  .option('--rules <path>', 'Architecture rules file the viewer checks the graph against', RULES_FILE)
   .action((options) => {
     const dbPath = getDatabasePath(options.targetOrg);
     process.env.DATABASE_PATH = dbPath;
     console.log(`Serving database: ${dbPath}`);
-    startServer(parseInt(options.port), options.targetOrg);
+    // Live lookups need either an org for the sf CLI or an explicit source
+    const source = options.source || options.targetOrg
+      ? createDataSource(options.source, options.targetOrg)
+      : undefined;
+    startServer(parseInt(options.port), options.targetOrg, source, options.project, options.rules);
   });
 
 program.parse(process.argv);
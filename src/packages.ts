@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import { getComponents, getDependencyAdjacency } from './db';
+import { componentForSourcePath, walk } from './sourceScanner';
+import { stronglyConnectedComponents } from './cycles';
+
+export interface ProjectPackage {
+    name: string;
+    path: string;
+    // Declared dependencies on other package directories of the project
+    dependencies: string[];
+    // Declared dependencies on packages from outside the project
+    externalDependencies: string[];
+}
+
+type ComponentRef = { id: string, name: string, type: string };
+
+export interface PackageViolation {
+    sourcePackage: string;
+    targetPackage: string;
+    edges: { source: ComponentRef, target: ComponentRef }[];
+}
+
+export interface PackageCheck {
+    packages: (ProjectPackage & { components: number })[];
+    // Dependencies on a package that is not a declared dependency, directly or transitively
+    violations: PackageViolation[];
+    // Groups of packages that depend on each other, by declaration or actual use
+    cycles: string[][];
+    // Declared dependencies listed after the package that needs them
+    orderErrors: string[];
+}
+
+// Package directories of sfdx-project.json. Directories without a package name
+// are named after their path; "core@1.2.0-1" style aliases resolve to "core".
+export function readProjectPackages(projectPath: string): ProjectPackage[] {
+    const projectFile = path.join(projectPath, 'sfdx-project.json');
+    if (!fs.existsSync(projectFile)) {
+        throw new Error(`No sfdx-project.json in ${projectPath}`);
+    }
+    let project: any;
+    try {
+        project = JSON.parse(fs.readFileSync(projectFile, 'utf8'));
+    } catch (e: any) {
+        throw new Error(`Failed to read ${projectFile}: ${e.message}`);
+    }
+
+    const directories: any[] = project.packageDirectories || [];
+    const names = new Set(directories.map(d => d.package || d.path));
+    return directories.map(d => {
+        const declared: string[] = (d.dependencies || []).map((dep: any) => String(dep.package).split('@')[0]);
+        return {
+            name: d.package || d.path,
+            path: d.path,
+            dependencies: declared.filter(name => names.has(name)),
+            externalDependencies: declared.filter(name => !names.has(name))
+        };
+    });
+}
+
+// Component ID -> package names, for every stored component with a source file in a
+// package directory. Standard objects and fields can be customized in several.
+export function mapComponentsToPackages(projectPath: string, packages = readProjectPackages(projectPath)) {
+    const packagesByKey = new Map<string, string[]>();
+    for (const pkg of packages) {
+        const dir = path.join(projectPath, pkg.path);
+        if (!fs.existsSync(dir)) continue;
+        for (const file of walk(dir)) {
+            const component = componentForSourcePath(path.relative(projectPath, file));
+            if (!component) continue;
+            const key = `${component.type}:${component.name.toLowerCase()}`;
+            if (!packagesByKey.has(key)) packagesByKey.set(key, []);
+            if (!packagesByKey.get(key)!.includes(pkg.name)) packagesByKey.get(key)!.push(pkg.name);
+        }
+    }
+
+    const assignments = new Map<string, string[]>();
+    for (const c of getComponents() as ComponentRef[]) {
+        const pkgs = packagesByKey.get(`${c.type}:${(c.name || '').toLowerCase()}`);
+        if (pkgs) assignments.set(c.id, pkgs);
+    }
+    return assignments;
+}
+
+// Every package a package may use: its declared dependencies and theirs
+function allowedPackages(packages: ProjectPackage[]) {
+    const declared = new Map(packages.map(p => [p.name, p.dependencies]));
+    const allowed = new Map<string, Set<string>>();
+    for (const pkg of packages) {
+        const reached = new Set<string>();
+        const queue = [...pkg.dependencies];
+        while (queue.length > 0) {
+            const next = queue.shift()!;
+            if (reached.has(next)) continue;
+            reached.add(next);
+            queue.push(...(declared.get(next) || []));
+        }
+        allowed.set(pkg.name, reached);
+    }
+    return allowed;
+}
+
+// Check every stored dependency against the packages declared in the project
+export function checkPackages(projectPath: string): PackageCheck {
+    const packages = readProjectPackages(projectPath);
+    const assignments = mapComponentsToPackages(projectPath, packages);
+    const allowed = allowedPackages(packages);
+    const components = new Map((getComponents() as ComponentRef[]).map(c => [c.id, c]));
+    const describe = (id: string): ComponentRef => ({ id, name: components.get(id)?.name || id, type: components.get(id)?.type || 'Unknown' });
+
+    const violations = new Map<string, PackageViolation>();
+    const packageGraph = new Map<string, Set<string>>(packages.map(p => [p.name, new Set(p.dependencies)]));
+    getDependencyAdjacency().forEach((targets, source) => {
+        const sourcePackages = assignments.get(source);
+        if (!sourcePackages) return;
+        for (const target of targets) {
+            const targetPackages = assignments.get(target);
+            // Components outside the project (standard objects, other orgs' metadata) are not checked
+            if (!targetPackages || targetPackages.some(pkg => sourcePackages.includes(pkg))) continue;
+            // A component in several packages may be used through any of them
+            const permitted = sourcePackages.flatMap(from => targetPackages
+                .filter(to => allowed.get(from)!.has(to))
+                .map(to => [from, to]))[0];
+            const [sourcePackage, targetPackage] = permitted || [sourcePackages[0], targetPackages[0]];
+            packageGraph.get(sourcePackage)!.add(targetPackage);
+            if (permitted) continue;
+
+            const key = `${sourcePackage}->${targetPackage}`;
+            if (!violations.has(key)) violations.set(key, { sourcePackage, targetPackage, edges: [] });
+            violations.get(key)!.edges.push({ source: describe(source), target: describe(target) });
+        }
+    });
+
+    const adjacency = new Map(Array.from(packageGraph.entries()).map(([name, deps]) => [name, Array.from(deps)]));
+    const cycles = stronglyConnectedComponents(adjacency).filter(scc => scc.length > 1).map(scc => scc.sort());
+
+    const position = new Map(packages.map((p, i) => [p.name, i]));
+    const orderErrors = packages.flatMap((pkg, i) => pkg.dependencies
+        .filter(dep => position.get(dep)! > i)
+        .map(dep => `${pkg.name} depends on ${dep}, which is listed after it in packageDirectories`));
+
+    const counts = new Map<string, number>();
+    assignments.forEach(pkgs => pkgs.forEach(pkg => counts.set(pkg, (counts.get(pkg) || 0) + 1)));
+
+    return {
+        packages: packages.map(p => ({ ...p, components: counts.get(p.name) || 0 })),
+        violations: Array.from(violations.values()),
+        cycles,
+        orderErrors
+    };
+}
+
+export function printPackageCheck(check: PackageCheck) {
+    console.log('Packages:');
+    for (const p of check.packages) {
+        const deps = [...p.dependencies, ...p.externalDependencies.map(d => `${d} (external)`)];
+        console.log(`  ${p.name} (${p.path}): ${p.components} components, depends on ${deps.join(', ') || 'nothing'}`);
+    }
+
+    if (check.violations.length === 0 && check.cycles.length === 0 && check.orderErrors.length === 0) {
+        console.log('\nNo problems found: every dependency stays within the declared package dependencies.');
+        return;
+    }
+    for (const v of check.violations) {
+        console.log(`\n${v.sourcePackage} uses ${v.targetPackage} without declaring it (${v.edges.length} dependencies):`);
+        for (const e of v.edges) {
+            console.log(`  [${e.source.type}] ${e.source.name} -> [${e.target.type}] ${e.target.name}`);
+        }
+    }
+    for (const cycle of check.cycles) {
+        console.log(`\nPackages that depend on each other: ${cycle.join(', ')}`);
+    }
+    for (const error of check.orderErrors) {
+        console.log(`\nOrder: ${error}`);
+    }
+}
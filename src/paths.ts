@@ -0,0 +1,89 @@
+import { getComponentsByIds, getDependencyAdjacency } from './db';
+
+type Adjacency = Map<string, string[]>;
+
+const edgeKey = (source: string, target: string) => `${source}->${target}`;
+
+// Breadth-first search, so the first path found has the fewest hops
+function shortestPath(adjacency: Adjacency, from: string, to: string, blockedNodes: Set<string>, blockedEdges: Set<string>) {
+    const previous = new Map<string, string | null>([[from, null]]);
+    const queue = [from];
+    for (let i = 0; i < queue.length; i++) {
+        const current = queue[i];
+        if (current === to) {
+            const path = [to];
+            for (let hop = previous.get(to); hop; hop = previous.get(hop)) path.unshift(hop);
+            return path;
+        }
+        for (const next of adjacency.get(current) || []) {
+            if (previous.has(next) || blockedNodes.has(next) || blockedEdges.has(edgeKey(current, next))) continue;
+            previous.set(next, current);
+            queue.push(next);
+        }
+    }
+    return null;
+}
+
+// Yen's algorithm: the k shortest loop-free paths, each found by deviating from an earlier one
+function kShortestPaths(adjacency: Adjacency, from: string, to: string, k: number) {
+    const first = shortestPath(adjacency, from, to, new Set(), new Set());
+    if (!first) return [];
+
+    const paths = [first];
+    const candidates: string[][] = [];
+    const seen = new Set([first.join('\n')]);
+
+    while (paths.length < k) {
+        const previousPath = paths[paths.length - 1];
+        for (let i = 0; i < previousPath.length - 1; i++) {
+            const spur = previousPath[i];
+            const root = previousPath.slice(0, i + 1);
+
+            // Force a deviation at the spur node from every known path sharing this root
+            const blockedEdges = new Set<string>();
+            for (const p of paths) {
+                if (p.length > i + 1 && root.every((id, j) => p[j] === id)) {
+                    blockedEdges.add(edgeKey(p[i], p[i + 1]));
+                }
+            }
+            const blockedNodes = new Set(root.slice(0, -1));
+
+            const spurPath = shortestPath(adjacency, spur, to, blockedNodes, blockedEdges);
+            if (!spurPath) continue;
+            const candidate = [...root.slice(0, -1), ...spurPath];
+            const key = candidate.join('\n');
+            if (!seen.has(key)) {
+                seen.add(key);
+                candidates.push(candidate);
+            }
+        }
+        if (candidates.length === 0) break;
+        candidates.sort((a, b) => a.length - b.length);
+        paths.push(candidates.shift()!);
+    }
+    return paths;
+}
+
+// Up to k shortest dependency paths from one component to another, following
+// edges from dependent to dependency. When there is none, the paths in the other
+// direction are returned with reversed set, since that usually answers the question too.
+export function findDependencyPaths(from: string, to: string, k = 1) {
+    const adjacency = getDependencyAdjacency();
+    let reversed = false;
+    let paths = kShortestPaths(adjacency, from, to, k);
+    if (paths.length === 0) {
+        paths = kShortestPaths(adjacency, to, from, k);
+        reversed = paths.length > 0;
+    }
+
+    const components = new Map(getComponentsByIds(Array.from(new Set(paths.flat()))).map(c => [c.id, c]));
+    return {
+        from,
+        to,
+        reversed,
+        paths: paths.map(path => path.map(id => {
+            const c = components.get(id);
+            return { id, name: c?.name || id, type: c?.type || 'Unknown' };
+        }))
+    };
+}
@@ -0,0 +1,133 @@
+import { getComponents, getComponentsByIds, getImpact, searchComponents, ImpactDirection, ImpactResult } from './db';
+import { toRegExp } from './syncConfig';
+
+export type QueryFormat = 'table' | 'tree' | 'json';
+
+const hops = (depth: number) => depth === 1 ? '1 hop' : `${depth} hops`;
+
+type Component = { id: string, name: string, type: string, size: number | null, coverage: number | null };
+
+// An ID, or a name that matches exactly one component (case-insensitive)
+export function resolveComponent(nameOrId: string): Component {
+    const [byId] = getComponentsByIds([nameOrId]);
+    if (byId) return byId as Component;
+
+    const exact = (searchComponents(nameOrId, { limit: 20 }).results as (Component & { rank: number })[])
+        .filter(c => c.name.toLowerCase() === nameOrId.toLowerCase());
+    if (exact.length === 0) {
+        throw new Error(`Component not found: ${nameOrId}, try "dep-viewer find ${nameOrId}"`);
+    }
+    if (exact.length > 1) {
+        throw new Error(`${nameOrId} is ambiguous, use one of these IDs instead:\n` +
+            exact.map(c => `  ${c.id} (${c.type})`).join('\n'));
+    }
+    return exact[0];
+}
+
+// Everything the component uses (down) or that uses it (up), up to depth hops away.
+// With types, only matches are returned, plus the components between them and the
+// root for tree output.
+export function queryDependencies(root: Component, direction: ImpactDirection, depth: number, types?: string[]) {
+    const results = getImpact(root.id, direction, depth);
+    if (!types || types.length === 0) return { matches: results, results };
+
+    const matches = results.filter(r => types.includes(r.type));
+    const onPath = new Set(matches.flatMap(m => m.path.map(p => p.id)));
+    return { matches, results: results.filter(r => onPath.has(r.id)) };
+}
+
+// Components whose name matches a * wildcard pattern, or the ranked search results otherwise
+export function findComponents(pattern: string, types?: string[], limit = 50) {
+    if (pattern.includes('*')) {
+        const regex = toRegExp(pattern);
+        const matches = (getComponents() as Component[])
+            .filter(c => regex.test(c.name) && (!types || types.length === 0 || types.includes(c.type)))
+            .sort((a, b) => a.name.localeCompare(b.name));
+        return { total: matches.length, results: matches.slice(0, limit) };
+    }
+    const { total, results } = searchComponents(pattern, { types, limit });
+    return { total, results: results as Component[] };
+}
+
+// Matches with how many components they use and are used by within depth hops
+export function printFind(pattern: string, depth: number, format: QueryFormat, types?: string[], limit?: number) {
+    const { total, results } = findComponents(pattern, types, limit);
+    const rows = results.map(c => ({
+        ...c,
+        uses: getImpact(c.id, 'down', depth).length,
+        usedBy: getImpact(c.id, 'up', depth).length
+    }));
+    if (format === 'json') {
+        console.log(JSON.stringify({ pattern, depth, total, results: rows }, null, 2));
+        return;
+    }
+    if (rows.length === 0) {
+        console.log(`No components match ${pattern}.`);
+        return;
+    }
+    if (format === 'tree') {
+        const byType = new Map<string, typeof rows>();
+        rows.forEach(r => byType.set(r.type, [...(byType.get(r.type) || []), r]));
+        Array.from(byType.keys()).sort().forEach(type => {
+            console.log(type);
+            byType.get(type)!.forEach((r, i, all) => console.log(`${i === all.length - 1 ? '└── ' : '├── '}${r.name} (uses ${r.uses}, used by ${r.usedBy})`));
+        });
+    } else {
+        printTable(['Type', 'Name', 'Size', 'Coverage', 'Uses', 'Used By', 'ID'],
+            rows.map(r => [r.type, r.name, r.size, r.coverage, r.uses, r.usedBy, r.id]));
+    }
+    console.log(`\n${total > rows.length ? `Showing ${rows.length} of ${total}` : total} matches; uses and used by count components within ${hops(depth)}.`);
+}
+
+export function printTable(headers: string[], rows: (string | number | null)[][]) {
+    const cells = rows.map(row => row.map(v => v === null ? '-' : String(v)));
+    const widths = headers.map((h, i) => Math.max(h.length, ...cells.map(row => row[i].length)));
+    const line = (row: string[]) => row.map((v, i) => v.padEnd(widths[i])).join('  ').trimEnd();
+    console.log(line(headers));
+    console.log(line(widths.map(w => '-'.repeat(w))));
+    cells.forEach(row => console.log(line(row)));
+}
+
+// Shortest-path tree: every component appears once, under the one it was first reached through
+export function printTree(root: Component, results: ImpactResult[], matches: ImpactResult[]) {
+    const children = new Map<string, ImpactResult[]>();
+    for (const r of results) {
+        const parent = r.path[r.path.length - 2].id;
+        if (!children.has(parent)) children.set(parent, []);
+        children.get(parent)!.push(r);
+    }
+    const matched = new Set(matches.map(m => m.id));
+
+    console.log(`${root.name} [${root.type}]`);
+    const walk = (id: string, indent: string) => {
+        const nodes = children.get(id) || [];
+        nodes.forEach((node, i) => {
+            const last = i === nodes.length - 1;
+            // Components only shown to connect the matches are marked
+            const label = `${node.name} [${node.type}]${matched.has(node.id) ? '' : ' (via)'}`;
+            console.log(`${indent}${last ? '└── ' : '├── '}${label}`);
+            walk(node.id, indent + (last ? '    ' : '│   '));
+        });
+    };
+    walk(root.id, '');
+}
+
+export function printDependencies(root: Component, direction: ImpactDirection, depth: number, format: QueryFormat, types?: string[]) {
+    const { matches, results } = queryDependencies(root, direction, depth, types);
+    if (format === 'json') {
+        console.log(JSON.stringify({ component: root, direction, depth, results: matches }, null, 2));
+        return;
+    }
+    const noun = direction === 'down' ? 'dependencies' : 'usages';
+    if (matches.length === 0) {
+        console.log(`No ${noun} of ${root.name} within ${hops(depth)}.`);
+        return;
+    }
+    if (format === 'tree') {
+        printTree(root, results, matches);
+    } else {
+        printTable(['Depth', 'Type', 'Name', 'Size', 'Coverage', 'Via'],
+            matches.map(m => [m.distance, m.type, m.name, m.size, m.coverage, m.path.slice(1, -1).map(p => p.name).join(' > ') || null]));
+    }
+    console.log(`\n${matches.length} ${noun} of ${root.name} within ${hops(depth)}.`);
+}
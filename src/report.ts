@@ -0,0 +1,375 @@
+import { getComponents, getDependencyAdjacency, getSyncRuns, SyncRun } from './db';
+import { findCycles, DependencyCycle } from './cycles';
+import { findCommunities, Community } from './communities';
+import { isTestClass } from './unused';
+
+export const REPORT_FORMATS = ['html', 'md'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+// Rows in the largest and most connected tables
+const TOP_COUNT = 15;
+// Orphans, cycles and modules listed before the rest is only counted
+const LIST_LIMIT = 50;
+// Modules drawn in the overview graph, largest first
+const GRAPH_MODULES = 20;
+
+// Coverage buckets of the viewer's search facets and node borders
+const COVERAGE_BUCKETS = [
+    { label: 'No coverage', matches: (c: number | null) => c === null },
+    { label: '< 75%', matches: (c: number | null) => c !== null && c < 75 },
+    { label: '75-85%', matches: (c: number | null) => c !== null && c >= 75 && c < 85 },
+    { label: '>= 85%', matches: (c: number | null) => c !== null && c >= 85 }
+];
+
+export interface ReportComponent {
+    id: string;
+    name: string;
+    type: string;
+    size: number | null;
+    coverage: number | null;
+    // Distinct components it depends on, and that depend on it
+    uses: number;
+    usedBy: number;
+}
+
+export interface OrgReport {
+    org: string;
+    generatedAt: string;
+    lastSync?: SyncRun;
+    componentCount: number;
+    edgeCount: number;
+    types: { type: string, count: number }[];
+    // Apex classes and triggers, without test classes and managed package code
+    coverage: { label: string, count: number }[];
+    averageCoverage: number | null;
+    largest: ReportComponent[];
+    mostConnected: ReportComponent[];
+    // Components nothing depends on, as "Show Orphans Only" in the viewer
+    orphanCount: number;
+    orphans: ReportComponent[];
+    cycles: DependencyCycle[];
+    modularity: number;
+    modules: Community[];
+    // Dependencies between the modules of the overview graph
+    moduleEdges: { source: number, target: number, count: number }[];
+}
+
+export function parseReportFormat(value: string): ReportFormat {
+    if (!(REPORT_FORMATS as readonly string[]).includes(value)) {
+        throw new Error(`Unknown report format "${value}", use one of ${REPORT_FORMATS.join(', ')}`);
+    }
+    return value as ReportFormat;
+}
+
+type StoredComponent = { id: string, name: string, type: string, size: number | null, coverage: number | null, namespacePrefix?: string, entryPoint?: string | null };
+
+export function buildReport(org: string): OrgReport {
+    const stored = getComponents() as StoredComponent[];
+    const adjacency = getDependencyAdjacency();
+
+    const uses = new Map<string, number>();
+    const usedBy = new Map<string, number>();
+    let edgeCount = 0;
+    adjacency.forEach((targets, source) => {
+        const distinct = new Set(targets.filter(t => t !== source));
+        uses.set(source, distinct.size);
+        distinct.forEach(t => usedBy.set(t, (usedBy.get(t) || 0) + 1));
+        edgeCount += targets.length;
+    });
+
+    const components: ReportComponent[] = stored.map(c => ({
+        id: c.id,
+        name: c.name,
+        type: c.type,
+        size: c.size ?? null,
+        coverage: c.coverage ?? null,
+        uses: uses.get(c.id) || 0,
+        usedBy: usedBy.get(c.id) || 0
+    }));
+    const byName = (a: ReportComponent, b: ReportComponent) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name);
+
+    const typeCounts = new Map<string, number>();
+    components.forEach(c => typeCounts.set(c.type, (typeCounts.get(c.type) || 0) + 1));
+    const types = Array.from(typeCounts.entries())
+        .map(([type, count]) => ({ type, count }))
+        .sort((a, b) => b.count - a.count || a.type.localeCompare(b.type));
+
+    const apex = stored.filter(c => (c.type === 'ApexClass' || c.type === 'ApexTrigger') && !c.namespacePrefix && !isTestClass(c));
+    const covered = apex.filter(c => c.coverage !== null && c.coverage !== undefined);
+    const coverage = COVERAGE_BUCKETS.map(b => ({ label: b.label, count: apex.filter(c => b.matches(c.coverage ?? null)).length }));
+
+    const orphans = components.filter(c => c.usedBy === 0).sort(byName);
+
+    const { modularity, communities } = findCommunities({ excludeStandard: true });
+    const moduleOf = new Map<string, number>();
+    communities.slice(0, GRAPH_MODULES).forEach(c => c.members.forEach(m => moduleOf.set(m.id, c.id)));
+    const moduleEdgeCounts = new Map<string, number>();
+    adjacency.forEach((targets, source) => targets.forEach(target => {
+        const [a, b] = [moduleOf.get(source), moduleOf.get(target)];
+        if (a === undefined || b === undefined || a === b) return;
+        moduleEdgeCounts.set(`${a}:${b}`, (moduleEdgeCounts.get(`${a}:${b}`) || 0) + 1);
+    }));
+    const moduleEdges = Array.from(moduleEdgeCounts.entries()).map(([key, count]) => {
+        const [source, target] = key.split(':').map(Number);
+        return { source, target, count };
+    });
+
+    const runs = getSyncRuns();
+    return {
+        org,
+        generatedAt: new Date().toISOString(),
+        lastSync: runs[runs.length - 1],
+        componentCount: components.length,
+        edgeCount,
+        types,
+        coverage,
+        averageCoverage: covered.length > 0 ? covered.reduce((sum, c) => sum + c.coverage!, 0) / covered.length : null,
+        largest: components.filter(c => c.size !== null).sort((a, b) => b.size! - a.size! || byName(a, b)).slice(0, TOP_COUNT),
+        mostConnected: [...components].sort((a, b) => (b.uses + b.usedBy) - (a.uses + a.usedBy) || byName(a, b)).slice(0, TOP_COUNT),
+        orphanCount: orphans.length,
+        orphans: orphans.slice(0, LIST_LIMIT),
+        cycles: findCycles(),
+        modularity,
+        modules: communities,
+        moduleEdges
+    };
+}
+
+const percent = (value: number | null) => value === null ? '-' : `${Math.round(value)}%`;
+const orDash = (value: number | null) => value === null ? '-' : String(value);
+
+// One loop of a cycle as names, e.g. A -> B -> A
+const describeCycle = (cycle: DependencyCycle) => {
+    const names = new Map(cycle.members.map(m => [m.id, m.name]));
+    return cycle.example.map(id => names.get(id)).join(' → ');
+};
+
+const moduleSample = (community: Community, count = 5) =>
+    community.members.slice(0, count).map(m => m.name).join(', ') + (community.members.length > count ? `, +${community.members.length - count} more` : '');
+
+interface Section {
+    title: string;
+    intro?: string;
+    columns: string[];
+    rows: (string | number)[][];
+    // Rows left out of the table
+    more?: number;
+}
+
+// The tables both formats render, in order
+function reportSections(report: OrgReport): Section[] {
+    const componentRow = (c: ReportComponent) => [c.name, c.type, orDash(c.size), percent(c.coverage), c.uses, c.usedBy];
+    const componentColumns = ['Name', 'Type', 'Size', 'Coverage', 'Uses', 'Used By'];
+    return [
+        {
+            title: 'Components by Type',
+            columns: ['Type', 'Count'],
+            rows: report.types.map(t => [t.type, t.count])
+        },
+        {
+            title: 'Apex Coverage',
+            intro: `Apex classes and triggers, without test classes and managed package code. Average coverage: ${percent(report.averageCoverage)}.`,
+            columns: ['Coverage', 'Components'],
+            rows: report.coverage.map(b => [b.label, b.count])
+        },
+        {
+            title: 'Largest Components',
+            intro: 'By lines of code without comments.',
+            columns: componentColumns,
+            rows: report.largest.map(componentRow)
+        },
+        {
+            title: 'Most Connected Components',
+            intro: 'By the number of components they use plus the number that use them.',
+            columns: componentColumns,
+            rows: report.mostConnected.map(componentRow)
+        },
+        {
+            title: 'Orphans',
+            intro: `${report.orphanCount} components that nothing depends on. Entry points such as triggers, pages and tests are expected here.`,
+            columns: componentColumns,
+            rows: report.orphans.map(componentRow),
+            more: report.orphanCount - report.orphans.length
+        },
+        {
+            title: 'Circular Dependencies',
+            intro: report.cycles.length === 0 ? 'No circular dependencies found.' : `${report.cycles.length} groups of components that depend on each other.`,
+            columns: ['#', 'Components', 'Example Loop'],
+            rows: report.cycles.slice(0, LIST_LIMIT).map((cycle, i) => [i + 1, cycle.members.length, describeCycle(cycle)]),
+            more: report.cycles.length - Math.min(report.cycles.length, LIST_LIMIT)
+        },
+        {
+            title: 'Proposed Modules',
+            intro: `Louvain communities of the dependency graph without standard objects (modularity ${report.modularity.toFixed(3)}). Cohesion is the share of a module's dependencies that stay inside it.`,
+            columns: ['Module', 'Components', 'Internal', 'External', 'Cohesion', 'Members'],
+            rows: report.modules.slice(0, LIST_LIMIT).map(m => [m.id, m.members.length, m.internalEdges, m.externalEdges, percent(m.cohesion * 100), moduleSample(m)]),
+            more: report.modules.length - Math.min(report.modules.length, LIST_LIMIT)
+        }
+    ];
+}
+
+function summaryLines(report: OrgReport) {
+    const lines = [
+        `Org: ${report.org}`,
+        `Generated: ${report.generatedAt}`,
+        `Components: ${report.componentCount}, dependencies: ${report.edgeCount}`
+    ];
+    if (report.lastSync) {
+        lines.push(`Last sync: #${report.lastSync.id} (${report.lastSync.mode}) finished ${report.lastSync.finishedAt}`);
+    }
+    return lines;
+}
+
+// Markdown tables break on pipes and newlines
+const markdownCell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+function toMarkdown(report: OrgReport) {
+    const lines = [`# Dependency Report: ${report.org}`, '', ...summaryLines(report).map(l => `- ${l}`), ''];
+
+    const graphModules = report.modules.slice(0, GRAPH_MODULES);
+    if (graphModules.length > 0) {
+        lines.push('## Module Overview', '', 'The largest proposed modules and the dependencies between them.', '', '```mermaid', 'flowchart LR');
+        for (const m of graphModules) {
+            lines.push(`  m${m.id}["Module ${m.id}<br/><small>${m.members.length} components: ${moduleSample(m, 3).replace(/"/g, '#quot;')}</small>"]`);
+        }
+        for (const e of report.moduleEdges) {
+            lines.push(`  m${e.source} -->|${e.count}| m${e.target}`);
+        }
+        lines.push('```', '');
+    }
+
+    for (const section of reportSections(report)) {
+        lines.push(`## ${section.title}`, '');
+        if (section.intro) lines.push(section.intro, '');
+        if (section.rows.length === 0) continue;
+        lines.push(`| ${section.columns.join(' | ')} |`, `| ${section.columns.map(() => '---').join(' | ')} |`);
+        for (const row of section.rows) {
+            lines.push(`| ${row.map(markdownCell).join(' | ')} |`);
+        }
+        if (section.more) lines.push('', `_…and ${section.more} more._`);
+        lines.push('');
+    }
+    return lines.join('\n');
+}
+
+const escapeHtml = (value: string | number) => String(value)
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Same hash as the viewer's type colors, so a module keeps its color across reports
+const hueFor = (value: string) => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = value.charCodeAt(i) + ((hash << 5) - hash);
+    }
+    return Math.abs(hash % 360);
+};
+
+// Modules on a circle, sized by their member count, with hover titles
+function moduleSvg(report: OrgReport) {
+    const modules = report.modules.slice(0, GRAPH_MODULES);
+    const width = 800, height = 560, center = { x: width / 2, y: height / 2 };
+    const largest = Math.max(...modules.map(m => m.members.length));
+    const radius = (m: Community) => 12 + 28 * Math.sqrt(m.members.length / largest);
+    const orbit = modules.length > 1 ? Math.min(width, height) / 2 - 60 : 0;
+    const positions = new Map(modules.map((m, i) => {
+        const angle = (2 * Math.PI * i) / modules.length - Math.PI / 2;
+        return [m.id, { x: center.x + orbit * Math.cos(angle), y: center.y + orbit * Math.sin(angle) }];
+    }));
+    const heaviest = Math.max(1, ...report.moduleEdges.map(e => e.count));
+
+    const parts = [`<svg viewBox="0 0 ${width} ${height}" width="100%" style="max-width:${width}px" xmlns="http://www.w3.org/2000/svg">`];
+    parts.push('<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#999"/></marker></defs>');
+    for (const e of report.moduleEdges) {
+        const from = positions.get(e.source)!, to = positions.get(e.target)!;
+        // Stop at the target's border so the arrow head stays visible
+        const target = modules.find(m => m.id === e.target)!;
+        const dx = to.x - from.x, dy = to.y - from.y, length = Math.hypot(dx, dy) || 1;
+        const end = { x: to.x - (dx / length) * radius(target), y: to.y - (dy / length) * radius(target) };
+        const strokeWidth = 1 + 4 * Math.log(1 + e.count) / Math.log(1 + heaviest);
+        parts.push(`<line class="edge" x1="${from.x.toFixed(1)}" y1="${from.y.toFixed(1)}" x2="${end.x.toFixed(1)}" y2="${end.y.toFixed(1)}" stroke-width="${strokeWidth.toFixed(1)}" marker-end="url(#arrow)"><title>Module ${e.source} → Module ${e.target}: ${e.count} dependencies</title></line>`);
+    }
+    for (const m of modules) {
+        const { x, y } = positions.get(m.id)!;
+        const title = `Module ${m.id}: ${m.members.length} components, cohesion ${percent(m.cohesion * 100)}\n${moduleSample(m, 10)}`;
+        parts.push(`<g class="module"><title>${escapeHtml(title)}</title>`
+            + `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${radius(m).toFixed(1)}" fill="hsl(${hueFor(m.members[0].name)}, 60%, 70%)" stroke="hsl(${hueFor(m.members[0].name)}, 60%, 40%)" stroke-width="2"/>`
+            + `<text x="${x.toFixed(1)}" y="${(y + 4).toFixed(1)}" text-anchor="middle">${m.id}</text></g>`);
+    }
+    parts.push('</svg>');
+    return parts.join('\n');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 2em auto; max-width: 1000px; color: #222; padding: 0 1em; }
+h1 { border-bottom: 2px solid #0176d3; padding-bottom: .3em; }
+h2 { margin-top: 2em; color: #0176d3; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eee; }
+th { background: #f4f6f9; cursor: pointer; user-select: none; }
+th:hover { background: #e5e9f0; }
+.summary { list-style: none; padding: 0; color: #555; }
+.more, .intro { color: #666; font-size: 13px; }
+svg .edge { stroke: #999; opacity: .6; }
+svg .module text { font-size: 12px; font-weight: bold; pointer-events: none; }
+svg .module:hover circle { stroke-width: 4; }
+svg .edge:hover { stroke: #d81b60; opacity: 1; }
+`;
+
+// Click a column header to sort its table, numbers numerically
+const HTML_SCRIPT = `
+document.querySelectorAll('th').forEach(function (th) {
+  th.addEventListener('click', function () {
+    var table = th.closest('table'), body = table.tBodies[0], index = th.cellIndex;
+    var ascending = th.dataset.sort !== 'asc';
+    table.querySelectorAll('th').forEach(function (other) { delete other.dataset.sort; });
+    th.dataset.sort = ascending ? 'asc' : 'desc';
+    var value = function (row) { var text = row.cells[index].textContent; var n = parseFloat(text); return isNaN(n) ? text.toLowerCase() : n; };
+    Array.from(body.rows).sort(function (a, b) {
+      var x = value(a), y = value(b);
+      var order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+      return ascending ? order : -order;
+    }).forEach(function (row) { body.appendChild(row); });
+  });
+});
+`;
+
+function toHtml(report: OrgReport) {
+    const parts = [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>Dependency Report: ${escapeHtml(report.org)}</title>`,
+        `<style>${HTML_STYLE}</style>`,
+        '</head>',
+        '<body>',
+        `<h1>Dependency Report: ${escapeHtml(report.org)}</h1>`,
+        `<ul class="summary">${summaryLines(report).map(l => `<li>${escapeHtml(l)}</li>`).join('')}</ul>`
+    ];
+
+    if (report.modules.length > 0) {
+        parts.push('<h2>Module Overview</h2>',
+            '<p class="intro">The largest proposed modules and the dependencies between them. Hover a module for its members, an arrow for the dependency count.</p>',
+            moduleSvg(report));
+    }
+
+    for (const section of reportSections(report)) {
+        parts.push(`<h2>${escapeHtml(section.title)}</h2>`);
+        if (section.intro) parts.push(`<p class="intro">${escapeHtml(section.intro)}</p>`);
+        if (section.rows.length === 0) continue;
+        parts.push('<table>',
+            `<thead><tr>${section.columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead>`,
+            '<tbody>',
+            ...section.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`),
+            '</tbody>',
+            '</table>');
+        if (section.more) parts.push(`<p class="more">…and ${section.more} more.</p>`);
+    }
+
+    parts.push(`<script>${HTML_SCRIPT}</script>`, '</body>', '</html>');
+    return parts.join('\n') + '\n';
+}
+
+export function renderReport(report: OrgReport, format: ReportFormat) {
+    return format === 'html' ? toHtml(report) : toMarkdown(report);
+}
@@ -0,0 +1,129 @@
+import { getComponents, getDependencyAdjacency, getRiskiestComponents, hasCoverageData, hasRiskScores, setRiskScores } from './db';
+import { isTestClass } from './unused';
+
+// Only Apex has coverage and size; managed package code and test classes are not scored
+export const RISK_TYPES = ['ApexClass', 'ApexTrigger'];
+
+// Transitive dependents are counted up to this many, more don't raise the score
+export const FAN_IN_CAP = 1000;
+// Lines of code at which the size part of the score is at its maximum
+const SIZE_CAP = 5000;
+// How fan-in and size make up the impact of a change
+const FAN_IN_WEIGHT = 0.6;
+const SIZE_WEIGHT = 0.4;
+// Share of the score full coverage leaves, as tests never catch everything
+const COVERED_FLOOR = 0.2;
+// Coverage assumed when the database has none at all, e.g. a project scan, so
+// unknown coverage neither tops the ranking nor counts as tested
+const UNKNOWN_COVERAGE = 50;
+
+export interface RiskScore {
+    id: string;
+    risk: number;
+    fanIn: number;
+}
+
+// 0 to 100: how likely a change breaks something (uncovered code) times how
+// much it breaks (transitive dependents and size, both on a log scale).
+// A null coverage is unknown, not uncovered.
+export function riskScore(coverage: number | null, size: number | null, fanIn: number) {
+    const scale = (value: number, cap: number) => Math.min(1, Math.log1p(value) / Math.log1p(cap));
+    const likelihood = COVERED_FLOOR + (1 - COVERED_FLOOR) * (1 - (coverage ?? UNKNOWN_COVERAGE) / 100);
+    const impact = FAN_IN_WEIGHT * scale(fanIn, FAN_IN_CAP) + SIZE_WEIGHT * scale(size ?? 0, SIZE_CAP);
+    return Math.round(likelihood * impact * 1000) / 10;
+}
+
+type StoredComponent = { id: string, name: string, type: string, size: number | null, coverage: number | null, namespacePrefix?: string, entryPoint?: string | null };
+
+export function computeRiskScores(): RiskScore[] {
+    const components = getComponents() as StoredComponent[];
+    const tests = new Set(components.filter(c => isTestClass(c)).map(c => c.id));
+    // With coverage synced, Apex without a coverage row was never run by a test
+    const coverageKnown = hasCoverageData();
+
+    // Dependents of each component; tests don't make a class riskier to change
+    const dependents = new Map<string, string[]>();
+    getDependencyAdjacency().forEach((targets, source) => {
+        if (tests.has(source)) return;
+        for (const target of targets) {
+            if (target === source) continue;
+            if (!dependents.has(target)) dependents.set(target, []);
+            dependents.get(target)!.push(source);
+        }
+    });
+
+    // Everything a component with FAN_IN_CAP dependents depends on has at least as many,
+    // since they all reach it through that component, so a walk that reaches one of
+    // those among the dependents can stop early
+    const saturated = new Set<string>();
+    const transitiveFanIn = (id: string) => {
+        const seen = new Set<string>([id]);
+        const queue = [id];
+        for (let i = 0; i < queue.length; i++) {
+            for (const dependent of dependents.get(queue[i]) || []) {
+                if (seen.has(dependent)) continue;
+                if (saturated.has(dependent)) return FAN_IN_CAP;
+                seen.add(dependent);
+                if (seen.size > FAN_IN_CAP) return FAN_IN_CAP;
+                queue.push(dependent);
+            }
+        }
+        return seen.size - 1;
+    };
+
+    const scores: RiskScore[] = [];
+    for (const c of components) {
+        if (!RISK_TYPES.includes(c.type) || c.namespacePrefix || tests.has(c.id)) continue;
+        const fanIn = transitiveFanIn(c.id);
+        if (fanIn === FAN_IN_CAP) saturated.add(c.id);
+        scores.push({ id: c.id, risk: riskScore(c.coverage ?? (coverageKnown ? 0 : null), c.size ?? null, fanIn), fanIn });
+    }
+    return scores;
+}
+
+// Set once the open database has been scored, so one without Apex is not rescored on every use
+let scored = false;
+
+// Recompute and store every score, after the graph or the stats changed
+export function updateRiskScores() {
+    const scores = computeRiskScores();
+    setRiskScores(scores);
+    scored = true;
+    return scores.length;
+}
+
+// Databases synced before risk scoring existed get their scores on first use
+export function ensureRiskScores() {
+    if (!scored && !hasRiskScores()) updateRiskScores();
+    scored = true;
+}
+
+export function getRiskiest(limit: number) {
+    ensureRiskScores();
+    return getRiskiestComponents(limit);
+}
+
+export function printRiskiest(ranking: ReturnType<typeof getRiskiest>, coverageKnown = hasCoverageData()) {
+    if (ranking.length === 0) {
+        console.log('No Apex components to score.');
+        return;
+    }
+    const rows = ranking.map((c, i) => [
+        String(i + 1),
+        c.risk.toFixed(1),
+        c.type,
+        c.name,
+        c.coverage === null ? (coverageKnown ? 'none' : '-') : `${c.coverage}%`,
+        c.size === null ? '-' : String(c.size),
+        c.fanIn >= FAN_IN_CAP ? `${FAN_IN_CAP}+` : String(c.fanIn)
+    ]);
+    const header = ['#', 'Risk', 'Type', 'Name', 'Coverage', 'Size', 'Dependents'];
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+    const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+    console.log(line(header));
+    console.log(line(widths.map(w => '-'.repeat(w))));
+    rows.forEach(r => console.log(line(r)));
+    if (!coverageKnown) {
+        console.log(`\nNo coverage data (e.g. a project scan): every component is scored as ${UNKNOWN_COVERAGE}% covered.`);
+    }
+}
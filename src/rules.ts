@@ -0,0 +1,174 @@
+import fs from 'fs';
+import { getComponents, getDependencyAdjacency } from './db';
+import { matchesRule, PatternRule } from './syncConfig';
+
+export const RULES_FILE = 'dep-viewer.rules.json';
+
+// Which components a rule talks about. Each key is a list of wildcard patterns
+// (short for { include: [...] }) or include/exclude lists, and every key given
+// must match. The empty namespace "" stands for unmanaged components.
+export interface ComponentSelector {
+    types?: string[] | PatternRule;
+    names?: string[] | PatternRule;
+    namespaces?: string[] | PatternRule;
+}
+
+// Dependencies of the components matching "from": with "allow" they may only
+// point at components matching one of its selectors, "forbid" lists the ones
+// they must never point at.
+export interface ArchitectureRule {
+    name: string;
+    description?: string;
+    from: ComponentSelector;
+    allow?: ComponentSelector[];
+    forbid?: ComponentSelector[];
+}
+
+type ComponentRef = { id: string, name: string, type: string };
+
+export interface RuleViolation {
+    rule: string;
+    source: ComponentRef;
+    target: ComponentRef;
+}
+
+export interface RuleCheck {
+    rules: { name: string, description?: string, violations: number }[];
+    violations: RuleViolation[];
+}
+
+const SELECTOR_KEYS = ['types', 'names', 'namespaces'] as const;
+
+function validateSelector(selector: any, where: string, rulesPath: string) {
+    if (typeof selector !== 'object' || selector === null || Array.isArray(selector)) {
+        throw new Error(`${rulesPath}: ${where} must be an object`);
+    }
+    const isPatterns = (value: any) => Array.isArray(value) && value.every((p: any) => typeof p === 'string');
+    for (const key of Object.keys(selector)) {
+        if (!(SELECTOR_KEYS as readonly string[]).includes(key)) {
+            throw new Error(`${rulesPath}: unknown key "${key}" in ${where}, expected ${SELECTOR_KEYS.join(', ')}`);
+        }
+        const value = selector[key];
+        if (isPatterns(value)) continue;
+        const valid = typeof value === 'object' && value !== null
+            && ['include', 'exclude'].every(list => value[list] === undefined || isPatterns(value[list]));
+        if (!valid) {
+            throw new Error(`${rulesPath}: ${where}.${key} must be a list of patterns or { include, exclude }`);
+        }
+    }
+}
+
+function validateRule(rule: any, index: number, rulesPath: string) {
+    const where = `rules[${index}]`;
+    if (typeof rule !== 'object' || rule === null || typeof rule.name !== 'string' || !rule.name) {
+        throw new Error(`${rulesPath}: ${where} needs a name`);
+    }
+    if (rule.from === undefined) {
+        throw new Error(`${rulesPath}: rule "${rule.name}" needs a "from" selector`);
+    }
+    validateSelector(rule.from, `"${rule.name}".from`, rulesPath);
+    if (rule.allow === undefined && rule.forbid === undefined) {
+        throw new Error(`${rulesPath}: rule "${rule.name}" needs "allow" or "forbid"`);
+    }
+    for (const list of ['allow', 'forbid']) {
+        if (rule[list] === undefined) continue;
+        if (!Array.isArray(rule[list])) {
+            throw new Error(`${rulesPath}: "${rule.name}".${list} must be a list of selectors`);
+        }
+        rule[list].forEach((selector: any, i: number) => validateSelector(selector, `"${rule.name}".${list}[${i}]`, rulesPath));
+    }
+}
+
+export function loadRules(rulesPath = RULES_FILE): ArchitectureRule[] {
+    if (!fs.existsSync(rulesPath)) {
+        throw new Error(`Rules file ${rulesPath} not found`);
+    }
+
+    let file: any;
+    try {
+        file = JSON.parse(fs.readFileSync(rulesPath, 'utf8'));
+    } catch (e: any) {
+        throw new Error(`Could not parse ${rulesPath}: ${e.message}`);
+    }
+    if (!file || !Array.isArray(file.rules)) {
+        throw new Error(`${rulesPath}: expected { "rules": [...] }`);
+    }
+    const names = new Set<string>();
+    file.rules.forEach((rule: any, i: number) => {
+        validateRule(rule, i, rulesPath);
+        // Violations refer to their rule by name
+        if (names.has(rule.name)) {
+            throw new Error(`${rulesPath}: more than one rule is named "${rule.name}"`);
+        }
+        names.add(rule.name);
+    });
+    return file.rules;
+}
+
+function toPatternRule(value?: string[] | PatternRule): PatternRule | undefined {
+    return Array.isArray(value) ? { include: value } : value;
+}
+
+type RuleComponent = ComponentRef & { namespacePrefix?: string };
+
+function matchesSelector(component: RuleComponent, selector: ComponentSelector) {
+    return matchesRule(component.type, toPatternRule(selector.types))
+        && matchesRule(component.name, toPatternRule(selector.names))
+        && matchesRule(component.namespacePrefix || '', toPatternRule(selector.namespaces));
+}
+
+function breaksRule(target: RuleComponent, rule: ArchitectureRule) {
+    if (rule.forbid && rule.forbid.some(selector => matchesSelector(target, selector))) return true;
+    return !!rule.allow && !rule.allow.some(selector => matchesSelector(target, selector));
+}
+
+// Evaluate every rule against every stored dependency
+export function checkRules(rules: ArchitectureRule[]): RuleCheck {
+    const components = new Map<string, RuleComponent>();
+    for (const c of getComponents() as RuleComponent[]) {
+        components.set(c.id, c);
+    }
+    // Dependencies on components that were never listed still have an ID
+    const lookup = (id: string): RuleComponent => components.get(id) || { id, name: id, type: 'Unknown' };
+    const ref = (c: RuleComponent): ComponentRef => ({ id: c.id, name: c.name, type: c.type });
+
+    const violations: RuleViolation[] = [];
+    const counts = new Map<string, number>(rules.map(rule => [rule.name, 0]));
+    const adjacency = getDependencyAdjacency();
+
+    for (const rule of rules) {
+        for (const [sourceId, targetIds] of adjacency) {
+            const source = lookup(sourceId);
+            if (!matchesSelector(source, rule.from)) continue;
+            for (const targetId of targetIds) {
+                if (targetId === sourceId) continue;
+                const target = lookup(targetId);
+                if (!breaksRule(target, rule)) continue;
+                violations.push({ rule: rule.name, source: ref(source), target: ref(target) });
+                counts.set(rule.name, counts.get(rule.name)! + 1);
+            }
+        }
+    }
+
+    return {
+        rules: rules.map(rule => ({ name: rule.name, description: rule.description, violations: counts.get(rule.name)! })),
+        violations
+    };
+}
+
+export function printRuleCheck(check: RuleCheck) {
+    for (const rule of check.rules) {
+        const status = rule.violations === 0 ? 'ok' : `${rule.violations} violations`;
+        console.log(`${rule.name}: ${status}`);
+        for (const v of check.violations.filter(v => v.rule === rule.name)) {
+            console.log(`  [${v.source.type}] ${v.source.name} -> [${v.target.type}] ${v.target.name}`);
+        }
+    }
+
+    const broken = check.rules.filter(rule => rule.violations > 0).length;
+    if (check.violations.length === 0) {
+        console.log(`\nAll ${check.rules.length} rules pass.`);
+    } else {
+        console.log(`\n${check.violations.length} violations of ${broken} of ${check.rules.length} rules.`);
+    }
+}
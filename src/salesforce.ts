@@ -1,69 +1,100 @@
+import { APEX_STATS_KINDS, ApexStatsKind, DataSource, DEPENDENCY_RECORD_LIMIT } from './dataSource';
+import { DEFAULT_SYNC_FILTERS, SyncFilters, isComponentIncluded, isTypeIncluded } from './syncConfig';
+import { apexEntryPoint } from './sourceScanner';
+
+// A piece of a sync that could not be fetched: a metadata type, an Apex stats
+// query or a batch of component IDs. key identifies it for `sync --retry-failed`.
+export interface SyncFailure {
+    phase: 'metadata' | 'apexStats' | 'dependencies';
+    key: string;
+    ids?: string[];
+    error: string;
+    attempts: number;
+}
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execPromise = promisify(exec);
+// Progress of one sync phase, for listeners other than the terminal (e.g. the web UI)
+export interface SyncProgress {
+    phase: SyncFailure['phase'];
+    completed: number;
+    total: number;
+    percent: number;
+    // Set when the item that just completed failed
+    error?: string;
+}
 
-async function runCommand(command: string) {
-  // 50MB buffer to handle large JSON responses
-  const { stdout, stderr } = await execPromise(command, { maxBuffer: 1024 * 1024 * 50 });
-  if (stderr) {
-    // sf cli sometimes writes warnings to stderr, but we should log it
-    // console.warn('Command stderr:', stderr);
-  }
-  return stdout;
+export interface FetchOptions {
+    // Extra attempts per request, waiting twice as long before each one
+    retries?: number;
+    onProgress?: (progress: SyncProgress) => void;
 }
 
+function reportProgress(options: FetchOptions, phase: SyncProgress['phase'], completed: number, total: number, error?: string) {
+    if (!options.onProgress) return;
+    const percent = total > 0 ? Math.round((completed / total) * 100) : 100;
+    options.onProgress({ phase, completed, total, percent, error });
+}
 
+const RETRY_BASE_DELAY_MS = 1000;
 
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-export async function describeMetadata(targetOrg: string) {
-    // Use sf org list metadata-types
-    const stdout = await runCommand(`sf org list metadata-types --target-org "${targetOrg}" --json`);
-    try {
-        const result = JSON.parse(stdout);
-        if (result.status === 0 && result.result && result.result.metadataObjects) {
-            return result.result.metadataObjects;
+async function withRetry<T>(fn: () => Promise<T>, retries: number): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (e) {
+            if (attempt >= retries) throw e;
+            await sleep(RETRY_BASE_DELAY_MS * Math.pow(2, attempt));
         }
-        return [];
-    } catch (e: any) {
-        throw new Error(`Failed to describe metadata types: ${e.message}`);
     }
 }
 
-export async function listMetadata(targetOrg: string, type: string) {
-    // Some types might not support list or might fail, handle gracefully
-    try {
-        const stdout = await runCommand(`sf org list metadata -m "${type}" --target-org "${targetOrg}" --json`);
-        const result = JSON.parse(stdout);
-        if (result.status === 0) {
-            // result.result can be single object or array
-            return Array.isArray(result.result) ? result.result : [result.result];
-        }
-        return [];
-    } catch (e: any) {
-        // console.warn(`Failed to list metadata for ${type}: ${e.message}`);
-        return [];
+export interface MetadataFetchOptions extends FetchOptions {
+    // Only list these types instead of describing the org
+    types?: string[];
+    // Types already fetched by an interrupted run
+    skipTypes?: Set<string>;
+    // Include/exclude rules from dep-viewer.config.json
+    filters?: SyncFilters;
+    // Called as soon as a type has been listed, so records can be persisted right away
+    onTypeFetched?: (type: string, records: any[]) => void;
+}
+
+export interface DependencyFetchOptions extends FetchOptions {
+    // Called as soon as a batch of IDs has been queried, so edges can be persisted right away
+    onBatchFetched?: (ids: string[], records: any[]) => void;
+}
+
+// Split described metadata types into the ones the filters scan and the ones they skip
+export function selectMetadataTypes(types: any[], filters: SyncFilters = DEFAULT_SYNC_FILTERS) {
+    const included: string[] = [];
+    const excluded: string[] = [];
+    for (const typeObj of types) {
+        (isTypeIncluded(filters, typeObj.xmlName) ? included : excluded).push(typeObj.xmlName);
     }
+    return { included: included.sort(), excluded: excluded.sort() };
 }
 
-export async function fetchAllMetadata(targetOrg: string) {
+export async function fetchAllMetadata(source: DataSource, failures: SyncFailure[], options: MetadataFetchOptions = {}) {
     console.log(`\n[1/2] Fetching All Metadata Components...`);
     // console.log('Describing metadata types (via sf org list metadata-types)...');
     const startTime = Date.now();
+    const retries = options.retries || 0;
 
-    const types = await describeMetadata(targetOrg);
+    // Retries pass the failed types directly instead of describing the org again
+    const types = options.types
+        ? options.types.map(xmlName => ({ xmlName }))
+        : await source.describeMetadata();
     // console.log(`Found ${types.length} types.`);
     
-    // Filter types to those likely to be metadata
-    const validTypes = types.filter((typeObj: any) => {
-        const typeName = typeObj.xmlName;
-        // Skip some system types that are not metadata or cause issues
-        if (['User', 'Group', 'Organization', 'DataType', 'EntityDefinition'].includes(typeName)) return false;
-        if (typeName.endsWith('History') || typeName.endsWith('Share') || typeName.endsWith('Feed')) return false;
-        return true;
-    });
+    const filters = options.filters || DEFAULT_SYNC_FILTERS;
+    const validTypes = selectMetadataTypes(types, filters).included
+        .filter(typeName => !(options.skipTypes && options.skipTypes.has(typeName)))
+        .map(xmlName => ({ xmlName }));
     
+    if (options.skipTypes && options.skipTypes.size > 0) {
+        console.log(`      Skipping ${options.skipTypes.size} types fetched before the interruption.`);
+    }
     console.log(`      Found ${validTypes.length} valid metadata types to scan.`);
 
     const results: any[] = [];
@@ -75,13 +106,22 @@ export async function fetchAllMetadata(targetOrg: string) {
         const typeName = typeObj.xmlName;
 
         const p = (async () => {
-            const records = await listMetadata(targetOrg, typeName);
-            if (records && records.length > 0) {
-                results.push(records);
+            let error: string | undefined;
+            try {
+                const listed = await withRetry(() => source.listMetadata(typeName), retries);
+                const records = (listed || []).filter((r: any) => isComponentIncluded(filters, r));
+                if (records.length > 0) {
+                    results.push(records);
+                }
+                if (options.onTypeFetched) options.onTypeFetched(typeName, records);
+            } catch (e: any) {
+                error = `${typeName}: ${e.message}`;
+                failures.push({ phase: 'metadata', key: typeName, error: e.message, attempts: retries + 1 });
             }
             completed++;
             const percent = Math.round((completed / validTypes.length) * 100);
             process.stdout.write(`      Progress: [${completed}/${validTypes.length}] ${percent}% (${typeName})          \r`);
+            reportProgress(options, 'metadata', completed, validTypes.length, error);
         })();
         
         activePromises.add(p);
@@ -101,54 +141,43 @@ export async function fetchAllMetadata(targetOrg: string) {
 }
 
 
-export async function fetchDependenciesForId(targetOrg: string, id: string) {
-    const query = `SELECT MetadataComponentId, MetadataComponentName, MetadataComponentType, RefMetadataComponentId, RefMetadataComponentName, RefMetadataComponentType FROM MetadataComponentDependency WHERE MetadataComponentId = '${id}' OR RefMetadataComponentId = '${id}'`;
-    
-    // Use sf data query with tooling api flag
-    const command = `sf data query --query "${query}" --target-org "${targetOrg}" --use-tooling-api --json`;
-    
-    // console.log(\`Fetching dependencies for ID: \${id}...\`);
-
-    const stdout = await runCommand(command);
-    
-    let result;
-    try {
-        result = JSON.parse(stdout);
-    } catch (e) {
-        throw new Error('Invalid JSON response from Salesforce');
-    }
-
-    if (result.status === 0 && result.result) {
-        return result.result.records;
-    } else {
-        throw new Error(`Salesforce API Error: ${result.message || 'Unknown error'}`);
-    }
+// entryPoint is only set for classes whose body was read, and empty when they are none
+export interface ApexStats {
+    id: string;
+    size?: number;
+    coverage?: number;
+    entryPoint?: string;
 }
 
-export async function fetchApexStats(targetOrg: string) {
+export async function fetchApexStats(source: DataSource, failures: SyncFailure[], options: FetchOptions & { kinds?: ApexStatsKind[] } = {}) {
     console.log(`\n[2/2] Fetching Apex Code Coverage and Size Stats...`);
     const startTime = Date.now();
+    const retries = options.retries || 0;
+    const kinds = options.kinds || APEX_STATS_KINDS;
 
-    async function query(soql: string) {
+    let completed = 0;
+    async function query(kind: ApexStatsKind) {
+        if (!kinds.includes(kind)) return [];
         try {
-            const cmd = `sf data query --query "${soql}" --target-org "${targetOrg}" --use-tooling-api --json`;
-            const stdout = await runCommand(cmd);
-            const res = JSON.parse(stdout);
-            if (res.status === 0 && res.result) return res.result.records;
+            const records = await withRetry(() => source.queryApexStats(kind), retries);
+            reportProgress(options, 'apexStats', ++completed, kinds.length);
+            return records;
         } catch (e: any) {
-            // console.warn('Query failed', soql, e.message);
+            failures.push({ phase: 'apexStats', key: kind, error: e.message, attempts: retries + 1 });
+            reportProgress(options, 'apexStats', ++completed, kinds.length, `${kind}: ${e.message}`);
         }
         return [];
     }
 
     // Parallel fetch
-    const [classes, triggers, coverage] = await Promise.all([
-        query('SELECT Id, LengthWithoutComments FROM ApexClass'),
-        query('SELECT Id, LengthWithoutComments FROM ApexTrigger'),
-        query('SELECT ApexClassOrTriggerId, NumLinesCovered, NumLinesUncovered FROM ApexCodeCoverageAggregate')
+    const [classes, triggers, coverage, classBodies] = await Promise.all([
+        query('classes'),
+        query('triggers'),
+        query('coverage'),
+        query('classBodies')
     ]);
 
-    const statsMap = new Map<string, { id: string, size?: number, coverage?: number }>();
+    const statsMap = new Map<string, ApexStats>();
 
     // Process Size
     const processSize = (records: any[]) => {
@@ -172,70 +201,104 @@ export async function fetchApexStats(targetOrg: string) {
         let pct = 0;
         if (total > 0) pct = Math.round((covered / total) * 100);
 
-        const existing: { id: string, size?: number, coverage?: number } = statsMap.get(id) || { id };
+        const existing: ApexStats = statsMap.get(id) || { id };
         existing.coverage = pct;
         statsMap.set(id, existing);
     }
+
+    // Process Entry Points
+    for (const c of classBodies) {
+        if (!c.Id || typeof c.Body !== 'string') continue;
+        const existing: ApexStats = statsMap.get(c.Id) || { id: c.Id };
+        existing.entryPoint = apexEntryPoint(c.Body);
+        statsMap.set(c.Id, existing);
+    }
     
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(`      ✓ Fetched stats for ${statsMap.size} components in ${duration}s.`);
     return Array.from(statsMap.values());
 }
 
-export async function fetchDependenciesByIds(targetOrg: string, ids: string[]) {
-    try {
-        const idsList = ids.map(id => `'${id}'`).join(',');
-        const query = `SELECT MetadataComponentId, MetadataComponentName, MetadataComponentType, RefMetadataComponentId, RefMetadataComponentName, RefMetadataComponentType FROM MetadataComponentDependency WHERE MetadataComponentId IN (${idsList})`;
-        const stdout = await runCommand(`sf data query --use-tooling-api --query "${query}" --target-org "${targetOrg}" --json`);
-        const result = JSON.parse(stdout);
-        if (result.status === 0 && result.result && result.result.records) {
-            return result.result.records;
-        }
-        return [];
-    } catch (e: any) {
-        // console.error(e.message);
-        return [];
-    }
-}
-
-export async function fetchAllDependencies(targetOrg: string, allComponents: any[]) {
+export async function fetchAllDependencies(source: DataSource, allComponents: any[], failures: SyncFailure[], options: DependencyFetchOptions = {}) {
     console.log(`\n[3/3] Fetching Dependency Edges...`);
     const startTime = Date.now();
+    const retries = options.retries || 0;
 
     // Filter components that have an ID
     const validComponents = allComponents.filter(c => c.id);
     console.log(`      Scanning dependencies for ${validComponents.length} components...`);
 
     const results: any[] = [];
-    const BATCH_SIZE = 20; // 20 IDs per query to stay comfortably within URL/Query limits
+    // Start with fairly large batches; any batch that hits the row limit is split in half and re-queried
+    const INITIAL_BATCH_SIZE = 50;
     const CONCURRENCY_LIMIT = 5; 
     
     // Create chunks
-    const chunks: string[][] = [];
-    for (let i = 0; i < validComponents.length; i += BATCH_SIZE) {
-        chunks.push(validComponents.slice(i, i + BATCH_SIZE).map(c => c.id));
+    const pending: string[][] = [];
+    for (let i = 0; i < validComponents.length; i += INITIAL_BATCH_SIZE) {
+        pending.push(validComponents.slice(i, i + INITIAL_BATCH_SIZE).map(c => c.id));
     }
 
     const activePromises: Set<Promise<void>> = new Set();
+    const truncatedIds: string[] = [];
     let completed = 0;
+    let splits = 0;
+
+    while (pending.length > 0 || activePromises.size > 0) {
+        // Wait for a free slot, or for running batches that may still split into new work
+        if (pending.length === 0 || activePromises.size >= CONCURRENCY_LIMIT) {
+            await Promise.race(activePromises);
+            continue;
+        }
 
-    for (const chunkIds of chunks) {
+        const chunkIds = pending.shift()!;
         const p = (async () => {
-            const records = await fetchDependenciesByIds(targetOrg, chunkIds);
+            let response;
+            try {
+                response = await withRetry(() => source.queryDependencies(chunkIds), retries);
+            } catch (e: any) {
+                failures.push({
+                    phase: 'dependencies',
+                    key: `${chunkIds[0]} (+${chunkIds.length - 1})`,
+                    ids: chunkIds,
+                    error: e.message,
+                    attempts: retries + 1
+                });
+                completed += chunkIds.length;
+                reportProgress(options, 'dependencies', completed, validComponents.length, `${chunkIds.length} components: ${e.message}`);
+                return;
+            }
+            const { records, truncated } = response;
+            if (truncated && chunkIds.length > 1) {
+                const mid = Math.ceil(chunkIds.length / 2);
+                pending.unshift(chunkIds.slice(0, mid), chunkIds.slice(mid));
+                splits++;
+                return;
+            }
+            if (truncated) {
+                // A single component with more references than one query can return:
+                // keep the edges that arrived, but record it so the sync is not reported as complete
+                truncatedIds.push(chunkIds[0]);
+                failures.push({
+                    phase: 'dependencies',
+                    key: chunkIds[0],
+                    ids: chunkIds,
+                    error: `More than ${DEPENDENCY_RECORD_LIMIT} dependency rows, some edges are missing`,
+                    attempts: retries + 1
+                });
+            }
             if (records && records.length > 0) {
                 results.push(records);
             }
+            if (options.onBatchFetched) options.onBatchFetched(chunkIds, records || []);
             completed += chunkIds.length;
             const percent = Math.round((completed / validComponents.length) * 100);
             process.stdout.write(`      Progress: [${completed}/${validComponents.length}] ${percent}%          \r`);
+            reportProgress(options, 'dependencies', completed, validComponents.length);
         })();
         
         activePromises.add(p);
         p.then(() => activePromises.delete(p));
-
-        if (activePromises.size >= CONCURRENCY_LIMIT) {
-            await Promise.race(activePromises);
-        }
     }
     
     await Promise.all(activePromises);
@@ -243,17 +306,16 @@ export async function fetchAllDependencies(targetOrg: string, allComponents: any
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(`\n      ✓ Fetched ${allRecords.length} dependency edges in ${duration}s.`);
+    if (splits > 0) {
+        console.log(`      Split ${splits} batches that hit the query row limit.`);
+    }
+    if (truncatedIds.length > 0) {
+        console.warn(`      ⚠ ${truncatedIds.length} components exceed the row limit on their own, some of their edges are missing: ${truncatedIds.join(', ')}`);
+    }
     return allRecords;
 }
 
-export async function openInSalesforce(org: string, id: string) {
-    console.log(`Opening ${id} in ${org}...`);
-    // -r: url only (no json) does not exist for org open, but --url-only results in a URL string if used with json?
-    // Actually sf org open -p /id opens it in the browser.
-    // If we want to return the URL to the client, we might use --url-only -r.
-    // But since this is a local tool, we can just run the command to open the browser.
-    await runCommand(`sf org open --target-org "${org}" --path "/${id}"`);
+export async function openInSalesforce(source: DataSource, id: string) {
+    console.log(`Opening ${id} via ${source.name}...`);
+    await source.openRecord(id);
 }
-
-
-
@@ -2,16 +2,50 @@ import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
 import path from 'path';
 import open from 'open';
-import { getAllDependencies, getComponents, initDb, searchComponents } from './db';
-import { fetchDependenciesForId, openInSalesforce } from './salesforce';
+import { getAllDependencies, getComponents, initDb, searchComponents, COMPONENT_ATTRIBUTES, getSyncRuns, diffRuns,
+  getOrgDatabasePath, listOrgDatabases, compareWithDatabase, CoverageBucket,
+  getImpact, getDependenciesAmong, ImpactDirection } from './db';
+import { resolveRunPair } from './history';
+import { openInSalesforce } from './salesforce';
+import { DataSource } from './dataSource';
+import { createSyncJob, SyncMode } from './syncJob';
+import { findDependencyPaths } from './paths';
+import { findCycles } from './cycles';
+import { findUnused } from './unused';
+import { findCommunities } from './communities';
+import { readProjectPackages, mapComponentsToPackages } from './packages';
+import { RULES_FILE, loadRules, checkRules } from './rules';
+import { ensureRiskScores, getRiskiest } from './risk';
+import { EXPORT_FILES, ExportGraph, filterGraph, formatGraph, parseExportFormat } from './graphExport';
 
-export function startServer(port: number, targetOrg?: string) {
+// Stored component attributes as dependency row fields, matching the columns getAllDependencies returns
+function attributeFields(component: any, prefix: string) {
+  const fields: Record<string, any> = {};
+  for (const a of COMPONENT_ATTRIBUTES) {
+    fields[`${prefix}${a[0].toUpperCase()}${a.slice(1)}`] = component[a];
+  }
+  return fields;
+}
+
+const IMPACT_DEFAULT_DEPTH = 5;
+// Each extra hop can multiply the rows the recursive query walks
+const IMPACT_MAX_DEPTH = 20;
+const PATH_MAX_K = 10;
+const SEARCH_DEFAULT_LIMIT = 50;
+const SEARCH_MAX_LIMIT = 500;
+
+export function startServer(port: number, targetOrg?: string, source?: DataSource, projectPath?: string, rulesPath = RULES_FILE) {
   const app = express();
   app.use(cors());
-  app.use(express.json());
+  // The UI posts the whole visible graph to /api/export
+  app.use(express.json({ limit: '50mb' }));
 
   // Initialize DB safely
   initDb();
+  // Graph rows carry risk scores, so older databases get theirs before the first load
+  ensureRiskScores();
+
+  const syncJob = source && targetOrg ? createSyncJob(source, targetOrg) : undefined;
 
   app.get('/api/dependencies', (req, res) => {
     try {
@@ -24,7 +58,7 @@ export function startServer(port: number, targetOrg?: string) {
 
   app.post('/api/open', async (req: Request, res: Response) => {
     const { id } = req.body;
-    if (!targetOrg) {
+    if (!source) {
         return res.status(400).json({ error: 'No target org connected (started without -o/--target-org?)' });
     }
     if (!id) {
@@ -32,7 +66,7 @@ export function startServer(port: number, targetOrg?: string) {
     }
 
     try {
-        await openInSalesforce(targetOrg, id);
+        await openInSalesforce(source, id);
         res.json({ success: true });
     } catch(err: any) {
         console.error("Failed to open info Salesforce:", err);
@@ -40,16 +74,243 @@ export function startServer(port: number, targetOrg?: string) {
     }
   });
 
+  // Start a sync of the connected org; progress is reported on /api/sync/events
+  app.post('/api/sync', (req: Request, res: Response) => {
+    if (!syncJob) {
+      return res.status(400).json({ error: 'No target org connected (started without -o/--target-org?)' });
+    }
+    // Express leaves req.body undefined when the request has no JSON body
+    const mode: SyncMode = req.body?.mode || 'incremental';
+    if (!['full', 'incremental', 'retry-failed'].includes(mode)) {
+      return res.status(400).json({ error: `Unknown sync mode: ${mode}` });
+    }
+    if (syncJob.isRunning()) {
+      return res.status(409).json({ error: 'A sync is already running' });
+    }
+    syncJob.start(mode);
+    res.status(202).json({ started: true, mode });
+  });
+
+  // Server-sent events: the current state first, then start/progress/done/failed events
+  app.get('/api/sync/events', (req: Request, res: Response) => {
+    if (!syncJob) {
+      return res.status(400).json({ error: 'No target org connected (started without -o/--target-org?)' });
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    const unsubscribe = syncJob.subscribe(event => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    req.on('close', unsubscribe);
+  });
+
   app.get('/api/components', (req: Request, res: Response) => {
     try {
       const q = req.query.q as string || '';
-      const results = searchComponents(q);
-      res.json(results);
+      // Facets are comma separated lists, e.g. ?type=ApexClass,ApexTrigger&coverage=low,none
+      const list = (name: string) => req.query[name] !== undefined ? String(req.query[name]).split(',') : undefined;
+      res.json(searchComponents(q, {
+        types: list('type'),
+        namespaces: list('namespace'),
+        coverage: list('coverage') as CoverageBucket[] | undefined,
+        offset: Math.max(parseInt(req.query.offset as string, 10) || 0, 0),
+        // SQLite reads a negative LIMIT as no limit at all
+        limit: Math.min(Math.max(parseInt(req.query.limit as string, 10) || SEARCH_DEFAULT_LIMIT, 1), SEARCH_MAX_LIMIT)
+      }));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get('/api/runs', (req: Request, res: Response) => {
+    try {
+      res.json(getSyncRuns());
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Same defaults as the diff command: latest run against the one before it
+  app.get('/api/diff', (req: Request, res: Response) => {
+    let runs: [number, number];
+    try {
+      runs = resolveRunPair(req.query.from as string | undefined, req.query.to as string | undefined);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    try {
+      res.json(diffRuns(runs[0], runs[1]));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Other org databases in the working directory that can be compared with this one
+  app.get('/api/orgs', (req: Request, res: Response) => {
+    try {
+      res.json(listOrgDatabases().filter(org => getOrgDatabasePath(org) !== process.env.DATABASE_PATH));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get('/api/compare', (req: Request, res: Response) => {
+    const org = req.query.org as string;
+    if (!org) {
+      return res.status(400).json({ error: 'Missing org' });
+    }
+    try {
+      res.json({ left: targetOrg || 'local', right: org, ...compareWithDatabase(getOrgDatabasePath(org)) });
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
   });
 
+  // Transitive impact of changing a component, plus the edges among everything found
+  app.get('/api/impact/:id', (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const direction = (req.query.direction as string) || 'both';
+    if (!['up', 'down', 'both'].includes(direction)) {
+      return res.status(400).json({ error: 'direction must be up, down or both' });
+    }
+    const depth = Math.min(Math.max(parseInt(req.query.depth as string, 10) || IMPACT_DEFAULT_DEPTH, 1), IMPACT_MAX_DEPTH);
+    try {
+      const directions: ImpactDirection[] = direction === 'both' ? ['up', 'down'] : [direction as ImpactDirection];
+      const results = directions.flatMap(d => getImpact(id, d, depth));
+      const edges = getDependenciesAmong([id, ...results.map(r => r.id)]);
+      res.json({ id, direction, depth, results, edges });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Shortest dependency path(s) between two components, ?from=<id>&to=<id>&k=<paths>
+  app.get('/api/path', (req: Request, res: Response) => {
+    const from = req.query.from as string;
+    const to = req.query.to as string;
+    if (!from || !to) {
+      return res.status(400).json({ error: 'Both from and to are required' });
+    }
+    const k = Math.min(Math.max(parseInt(req.query.k as string, 10) || 1, 1), PATH_MAX_K);
+    try {
+      const result = findDependencyPaths(from, to, k);
+      const ids = Array.from(new Set(result.paths.flat().map(c => c.id)));
+      // Only the edges the paths use, not every edge among their components
+      const used = new Set(result.paths.flatMap(path => path.slice(1).map((c, i) => `${path[i].id}-${c.id}`)));
+      const edges = getDependenciesAmong(ids).filter((e: any) => used.has(e.id));
+      res.json({ ...result, edges });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Circular dependencies, each with the dependency rows that form it; ?types=ApexClass,ApexTrigger
+  app.get('/api/cycles', (req: Request, res: Response) => {
+    try {
+      const types = req.query.types ? String(req.query.types).split(',') : undefined;
+      const cycles = findCycles(types).map(cycle => {
+        const edgeIds = new Set(cycle.edges.map(e => `${e.sourceId}-${e.targetId}`));
+        const rows = getDependenciesAmong(cycle.members.map(m => m.id)).filter((e: any) => edgeIds.has(e.id));
+        return { ...cycle, rows };
+      });
+      res.json(cycles);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Proposed modules, ?excludeStandard=true&hubDegree=<count>&resolution=<value>
+  app.get('/api/communities', (req: Request, res: Response) => {
+    try {
+      const hubDegree = parseInt(req.query.hubDegree as string, 10);
+      res.json(findCommunities({
+        excludeStandard: req.query.excludeStandard === 'true',
+        hubDegree: isNaN(hubDegree) ? undefined : hubDegree,
+        resolution: parseFloat(req.query.resolution as string) || 1
+      }));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Package directories of the --project and the package of each component
+  app.get('/api/packages', (req: Request, res: Response) => {
+    if (!projectPath) {
+      return res.status(400).json({ error: 'No SFDX project given (started without --project?)' });
+    }
+    try {
+      const packages = readProjectPackages(projectPath);
+      const assignments = Object.fromEntries(mapComponentsToPackages(projectPath, packages));
+      res.json({ packages, assignments });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Architecture rule violations, each with the dependency row that breaks the rule
+  app.get('/api/rules', (req: Request, res: Response) => {
+    let rules;
+    try {
+      rules = loadRules(rulesPath);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    try {
+      const check = checkRules(rules);
+      const ids = new Set(check.violations.flatMap(v => [v.source.id, v.target.id]));
+      const rows = new Map(getDependenciesAmong(Array.from(ids)).map((e: any) => [e.id, e]));
+      const violations = check.violations.map(v => ({ ...v, row: rows.get(`${v.source.id}-${v.target.id}`) }));
+      res.json({ ...check, violations });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Riskiest Apex components first, ?limit=50
+  app.get('/api/risk', (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : 50;
+      if (isNaN(limit) || limit < 1) {
+        return res.status(400).json({ error: 'limit must be a positive number' });
+      }
+      res.json(getRiskiest(limit));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get('/api/unused', (req: Request, res: Response) => {
+    try {
+      const types = req.query.types ? String(req.query.types).split(',') : undefined;
+      res.json(findUnused(types));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Format the graph the UI has on screen, body { format, nodes, edges }
+  app.post('/api/export', (req: Request, res: Response) => {
+    const { format, nodes, edges } = req.body || {};
+    if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+      return res.status(400).json({ error: 'nodes and edges are required' });
+    }
+    try {
+      const exportFormat = parseExportFormat(format);
+      // Drops edges to components that are not in the export
+      const graph = filterGraph({ nodes, edges } as ExportGraph, {});
+      const { extension, contentType } = EXPORT_FILES[exportFormat];
+      // attachment() guesses a content type from the extension, so set ours after it
+      res.attachment(`dependencies.${extension}`);
+      res.type(contentType);
+      res.send(formatGraph(graph, exportFormat));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
   app.get('/api/dependencies/:id', async (req: Request, res: Response) => {
     const id = req.params.id as string;
     try {
@@ -67,10 +328,10 @@ export function startServer(port: number, targetOrg?: string) {
       // I will allow a query param ?source=local to force local
       const forceLocal = req.query.source === 'local';
 
-      if (targetOrg && !forceLocal) {
+      if (source && !forceLocal) {
          try {
-            console.log(`Fetching dependencies for ${id} from Salesforce...`);
-            const records = await fetchDependenciesForId(targetOrg, id);
+            console.log(`Fetching dependencies for ${id} from ${source.name}...`);
+            const records = await source.queryDependenciesForId(id);
             
             // Map records to a format the UI expects, and augment with local component data if possible
             // Since we don't store dependencies, we return the records directly in the expected format
@@ -90,12 +351,14 @@ export function startServer(port: number, targetOrg?: string) {
                     metadataComponentType: dep.MetadataComponentType,
                     metadataComponentSize: s.size,
                     metadataComponentCoverage: s.coverage,
+                    ...attributeFields(s, 'metadataComponent'),
 
                     refMetadataComponentId: dep.RefMetadataComponentId,
                     refMetadataComponentName: dep.RefMetadataComponentName || dep.RefMetadataComponentComponentName,
                     refMetadataComponentType: dep.RefMetadataComponentType,
                     refMetadataComponentSize: t.size,
-                    refMetadataComponentCoverage: t.coverage
+                    refMetadataComponentCoverage: t.coverage,
+                    ...attributeFields(t, 'refMetadataComponent')
                 };
             });
             
@@ -133,6 +396,7 @@ export function startServer(port: number, targetOrg?: string) {
     const url = `http://localhost:${port}`;
     console.log(`Server running at ${url}`);
     if (targetOrg) console.log(`Connected to Salesforce Org: ${targetOrg}`);
+    if (source) console.log(`Live lookups via: ${source.name}`);
     console.log('Opening browser...');
     open(url);
   });
@@ -0,0 +1,162 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { ApexStatsKind, DataSource, DEPENDENCY_RECORD_LIMIT } from './dataSource';
+
+const execPromise = promisify(exec);
+
+async function runCommand(command: string) {
+  // 50MB buffer to handle large JSON responses
+  let stdout: string, stderr: string;
+  try {
+    ({ stdout, stderr } = await execPromise(command, { maxBuffer: 1024 * 1024 * 50 }));
+  } catch (e: any) {
+    // With --json, sf exits non-zero but still explains the failure on stdout
+    let message = e.message;
+    try {
+      const parsed = JSON.parse(e.stdout);
+      if (parsed.message) message = parsed.message;
+    } catch (parseError) {
+      // not JSON, keep the exec error
+    }
+    throw new Error(message);
+  }
+  if (stderr) {
+    // sf cli sometimes writes warnings to stderr, but we should log it
+    // console.warn('Command stderr:', stderr);
+  }
+  return stdout;
+}
+
+const DEPENDENCY_FIELDS = 'MetadataComponentId, MetadataComponentName, MetadataComponentType, MetadataComponentNamespace, '
+    + 'RefMetadataComponentId, RefMetadataComponentName, RefMetadataComponentType, RefMetadataComponentNamespace';
+
+const APEX_STATS_QUERIES: Record<Exclude<ApexStatsKind, 'classBodies'>, string> = {
+    classes: 'SELECT Id, LengthWithoutComments FROM ApexClass',
+    triggers: 'SELECT Id, LengthWithoutComments FROM ApexTrigger',
+    coverage: 'SELECT ApexClassOrTriggerId, NumLinesCovered, NumLinesUncovered FROM ApexCodeCoverageAggregate'
+};
+
+// All Apex source of an org does not fit in one sf CLI response, so class bodies
+// are read this many classes at a time. Managed package code is hidden, its bodies
+// only read "(hidden)".
+const CLASS_BODY_PAGE_SIZE = 100;
+const CLASS_BODY_QUERY = 'SELECT Id, Body FROM ApexClass WHERE NamespacePrefix = null';
+
+// Data source backed by the sf CLI, authenticated against targetOrg
+export function createSfCliSource(targetOrg: string): DataSource {
+
+    // Follow nextRecordsUrl until the API reports done. The returned done flag is
+    // false when rows are still missing, e.g. the CLI hit its fetch limit.
+    async function toolingQueryAll(soql: string) {
+        const stdout = await runCommand(`sf data query --query "${soql}" --target-org "${targetOrg}" --use-tooling-api --json`);
+
+        let result;
+        try {
+            result = JSON.parse(stdout);
+        } catch (e) {
+            throw new Error('Invalid JSON response from Salesforce');
+        }
+
+        if (result.status !== 0 || !result.result) {
+            throw new Error(`Salesforce API Error: ${result.message || 'Unknown error'}`);
+        }
+
+        const records: any[] = [...(result.result.records || [])];
+        let done = result.result.done !== false;
+        let nextRecordsUrl: string | undefined = result.result.nextRecordsUrl;
+
+        while (!done && nextRecordsUrl) {
+            const pageStdout = await runCommand(`sf api request rest "${nextRecordsUrl}" --target-org "${targetOrg}"`);
+            let page;
+            try {
+                page = JSON.parse(pageStdout);
+            } catch (e) {
+                throw new Error('Invalid JSON response from Salesforce while fetching next page');
+            }
+            records.push(...(page.records || []));
+            done = page.done !== false;
+            nextRecordsUrl = page.nextRecordsUrl;
+        }
+
+        // Fewer rows than totalSize means the response was cut short
+        if (typeof result.result.totalSize === 'number' && records.length < result.result.totalSize) {
+            done = false;
+        }
+
+        return { records, done };
+    }
+
+    async function toolingQuery(soql: string) {
+        const { records } = await toolingQueryAll(soql);
+        return records;
+    }
+
+    // Page through the class bodies by Id, each page a separate sf call
+    async function queryClassBodies() {
+        const records: any[] = [];
+        let lastId: string | undefined;
+        for (;;) {
+            const after = lastId ? ` AND Id > '${lastId}'` : '';
+            const page = await toolingQuery(`${CLASS_BODY_QUERY}${after} ORDER BY Id LIMIT ${CLASS_BODY_PAGE_SIZE}`);
+            records.push(...page);
+            if (page.length < CLASS_BODY_PAGE_SIZE) return records;
+            lastId = page[page.length - 1].Id;
+        }
+    }
+
+    return {
+        name: `sf:${targetOrg}`,
+
+        async describeMetadata() {
+            // Use sf org list metadata-types
+            const stdout = await runCommand(`sf org list metadata-types --target-org "${targetOrg}" --json`);
+            try {
+                const result = JSON.parse(stdout);
+                if (result.status === 0 && result.result && result.result.metadataObjects) {
+                    return result.result.metadataObjects;
+                }
+                return [];
+            } catch (e: any) {
+                throw new Error(`Failed to describe metadata types: ${e.message}`);
+            }
+        },
+
+        async listMetadata(type: string) {
+            const stdout = await runCommand(`sf org list metadata -m "${type}" --target-org "${targetOrg}" --json`);
+            let result;
+            try {
+                result = JSON.parse(stdout);
+            } catch (e) {
+                throw new Error('Invalid JSON response from Salesforce');
+            }
+            if (result.status !== 0) {
+                throw new Error(`Salesforce API Error: ${result.message || 'Unknown error'}`);
+            }
+            // result.result can be empty, a single object or an array
+            if (!result.result) return [];
+            return Array.isArray(result.result) ? result.result : [result.result];
+        },
+
+        async queryDependencies(ids: string[]) {
+            const idsList = ids.map(id => `'${id}'`).join(',');
+            const { records, done } = await toolingQueryAll(`SELECT ${DEPENDENCY_FIELDS} FROM MetadataComponentDependency WHERE MetadataComponentId IN (${idsList})`);
+            // MetadataComponentDependency does not page past its row limit, so a full result is suspect too
+            return { records, truncated: !done || records.length >= DEPENDENCY_RECORD_LIMIT };
+        },
+
+        async queryDependenciesForId(id: string) {
+            return toolingQuery(`SELECT ${DEPENDENCY_FIELDS} FROM MetadataComponentDependency WHERE MetadataComponentId = '${id}' OR RefMetadataComponentId = '${id}'`);
+        },
+
+        async queryApexStats(kind: ApexStatsKind) {
+            if (kind === 'classBodies') return queryClassBodies();
+            return toolingQuery(APEX_STATS_QUERIES[kind]);
+        },
+
+        async openRecord(id: string) {
+            // sf org open -p /id opens it in the browser.
+            // Since this is a local tool, we can just run the command to open the browser.
+            await runCommand(`sf org open --target-org "${targetOrg}" --path "/${id}"`);
+        }
+    };
+}
@@ -0,0 +1,383 @@
+import fs from 'fs';
+import path from 'path';
+
+// Static dependency scan of a local SFDX project. Components get synthetic IDs
+// ("<Type>:<FullName>") because source files carry no org IDs, and the result
+// is shaped like a sync so it can be stored in the same tables.
+
+export interface ScannedComponent {
+    id: string;
+    name: string;
+    type: string;
+    size?: number;
+    // Why the component is used without being referenced, e.g. "Test class";
+    // empty for Apex classes that were checked and are not entry points
+    entryPoint?: string;
+}
+
+export interface ScanResult {
+    components: ScannedComponent[];
+    edges: { sourceId: string, targetId: string }[];
+    files: number;
+}
+
+// A source file that defines (part of) a component, waiting for the reference pass
+interface SourceFile {
+    file: string;
+    componentId: string;
+    kind: 'apex' | 'lwcJs' | 'lwcHtml' | 'aura' | 'flow' | 'field';
+    objectName?: string;
+}
+
+export function getPackageDirectories(projectPath: string): string[] {
+    const projectFile = path.join(projectPath, 'sfdx-project.json');
+    if (fs.existsSync(projectFile)) {
+        try {
+            const project = JSON.parse(fs.readFileSync(projectFile, 'utf8'));
+            const dirs = (project.packageDirectories || [])
+                .map((d: any) => path.join(projectPath, d.path))
+                .filter((d: string) => fs.existsSync(d));
+            if (dirs.length > 0) return dirs;
+        } catch (e: any) {
+            throw new Error(`Failed to read ${projectFile}: ${e.message}`);
+        }
+    }
+    const forceApp = path.join(projectPath, 'force-app');
+    return [fs.existsSync(forceApp) ? forceApp : projectPath];
+}
+
+// Suffixes of files that define a whole component on their own
+const SOURCE_SUFFIXES: [string, string, string][] = [
+    ['classes', '.cls', 'ApexClass'],
+    ['triggers', '.trigger', 'ApexTrigger'],
+    ['pages', '.page', 'ApexPage'],
+    ['components', '.component', 'ApexComponent'],
+    ['flows', '.flow-meta.xml', 'Flow'],
+    ['layouts', '.layout-meta.xml', 'Layout'],
+    ['flexipages', '.flexipage-meta.xml', 'FlexiPage'],
+    ['staticresources', '.resource-meta.xml', 'StaticResource']
+];
+
+// The component a source file belongs to, e.g. classes/Foo.cls-meta.xml -> ApexClass Foo.
+// Label files hold many components and are not mapped.
+export function componentForSourcePath(file: string): { type: string, name: string } | undefined {
+    const segments = file.split(/[\\/]/);
+    const base = segments[segments.length - 1];
+    const folder = segments[segments.length - 2];
+    const bundle = (type: string, folderName: string) => {
+        const index = segments.lastIndexOf(folderName);
+        return index >= 0 && index < segments.length - 2 ? { type, name: segments[index + 1] } : undefined;
+    };
+
+    for (const [folderName, suffix, type] of SOURCE_SUFFIXES) {
+        if (folder !== folderName) continue;
+        if (base.endsWith(suffix)) return { type, name: base.slice(0, -suffix.length) };
+        if (base.endsWith(`${suffix}-meta.xml`)) return { type, name: base.slice(0, -`${suffix}-meta.xml`.length) };
+    }
+    const lwcOrAura = bundle('LightningComponentBundle', 'lwc') || bundle('AuraDefinitionBundle', 'aura');
+    if (lwcOrAura) return lwcOrAura;
+
+    const objects = segments.lastIndexOf('objects');
+    if (objects >= 0 && objects < segments.length - 2) {
+        const objectName = segments[objects + 1];
+        if (folder === 'fields' && base.endsWith('.field-meta.xml')) {
+            return { type: 'CustomField', name: `${objectName}.${base.slice(0, -'.field-meta.xml'.length)}` };
+        }
+        if (base === `${objectName}.object-meta.xml`) return { type: 'CustomObject', name: objectName };
+    }
+    // Static resource contents sit next to their -meta.xml, possibly unpacked into a folder
+    const resources = segments.lastIndexOf('staticresources');
+    if (resources >= 0 && resources < segments.length - 1) {
+        return { type: 'StaticResource', name: segments[resources + 1].replace(/\.[^.]+$/, '') };
+    }
+    return undefined;
+}
+
+export function walk(dir: string, files: string[] = []) {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) walk(full, files);
+        else files.push(full);
+    }
+    return files;
+}
+
+// Strip comments and string literals so names in them are not taken as references
+function stripApex(code: string) {
+    const withoutComments = code.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/\/\/.*$/gm, ' ');
+    return {
+        withoutComments,
+        code: withoutComments.replace(/'(?:\\.|[^'\\])*'/g, "''")
+    };
+}
+
+// Apex that runs without being referenced by other metadata, first match wins
+const APEX_ENTRY_POINTS: [RegExp, string][] = [
+    [/@isTest\b/i, 'Test class'],
+    [/@RestResource\b/i, 'REST resource'],
+    [/@InvocableMethod\b/i, 'Invocable method'],
+    [/@AuraEnabled\b/i, 'Aura enabled method'],
+    [/\bwebservice\s+static\b/i, 'SOAP web service'],
+    [/\bimplements\b[^{]*\bSchedulable\b/i, 'Schedulable'],
+    [/\bimplements\b[^{]*\bDatabase\.Batchable\b/i, 'Batchable'],
+    [/\bimplements\b[^{]*\bMessaging\.InboundEmailHandler\b/i, 'Email service']
+];
+
+// The entry point an Apex class body declares, '' when it declares none
+export function apexEntryPoint(source: string) {
+    const { withoutComments } = stripApex(source);
+    return APEX_ENTRY_POINTS.find(([pattern]) => pattern.test(withoutComments))?.[1] || '';
+}
+
+// Aura interfaces that make a bundle available to admins in the builders
+const AURA_ENTRY_POINTS = /implements\s*=\s*"[^"]*\b(flexipage:|force:appHostable|force:lightningQuickAction|forceCommunity:|lightning:actionOverride|lightning:availableForFlowScreens)/;
+
+const kebabToCamel = (name: string) => name.replace(/-([a-z0-9])/g, (_, c) => c.toUpperCase());
+
+const allMatches = (text: string, regex: RegExp) => Array.from(text.matchAll(regex), m => m[1]);
+
+const xmlBlocks = (xml: string, tag: string) => allMatches(xml, new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'));
+
+const xmlValues = (xml: string, tag: string) => allMatches(xml, new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g')).map(v => v.trim());
+
+export function scanProject(projectPath: string): ScanResult {
+    if (!fs.existsSync(projectPath)) {
+        throw new Error(`Project path not found: ${projectPath}`);
+    }
+
+    const components = new Map<string, ScannedComponent>();
+    // type -> lowercase name -> id. Salesforce API names are case-insensitive.
+    const byName = new Map<string, Map<string, string>>();
+    const sources: SourceFile[] = [];
+    const edges = new Map<string, { sourceId: string, targetId: string }>();
+
+    const define = (type: string, name: string, size?: number) => {
+        const key = name.toLowerCase();
+        let names = byName.get(type);
+        if (!names) byName.set(type, names = new Map());
+        const existing = names.get(key);
+        if (existing) {
+            if (size !== undefined) components.get(existing)!.size = size;
+            return existing;
+        }
+        const id = `${type}:${name}`;
+        components.set(id, { id, name, type, size });
+        names.set(key, id);
+        return id;
+    };
+
+    const lookup = (type: string, name: string) => byName.get(type)?.get(name.toLowerCase());
+
+    // Objects that are not in the project are standard objects, or come from another package
+    const objectRef = (name: string) =>
+        lookup('CustomObject', name) || lookup('StandardEntity', name) ||
+        define(name.toLowerCase().endsWith('__c') ? 'CustomObject' : 'StandardEntity', name);
+
+    const addEdge = (sourceId: string, targetId: string | undefined) => {
+        if (!targetId || sourceId === targetId) return;
+        edges.set(`${sourceId}->${targetId}`, { sourceId, targetId });
+    };
+
+    const packageDirs = getPackageDirectories(projectPath);
+    const files = packageDirs.flatMap(dir => walk(dir));
+
+    // Pass 1: find every component defined in the project
+    for (const file of files) {
+        const segments = file.split(path.sep);
+        const base = path.basename(file);
+        const folderIndex = (folder: string) => segments.lastIndexOf(folder);
+
+        if (base.endsWith('.cls') && folderIndex('classes') >= 0) {
+            const { withoutComments } = stripApex(fs.readFileSync(file, 'utf8'));
+            const id = define('ApexClass', base.slice(0, -'.cls'.length), withoutComments.trim().length);
+            sources.push({ file, componentId: id, kind: 'apex' });
+        } else if (base.endsWith('.trigger') && folderIndex('triggers') >= 0) {
+            const { withoutComments } = stripApex(fs.readFileSync(file, 'utf8'));
+            const id = define('ApexTrigger', base.slice(0, -'.trigger'.length), withoutComments.trim().length);
+            sources.push({ file, componentId: id, kind: 'apex' });
+        } else if (folderIndex('lwc') >= 0 && folderIndex('lwc') < segments.length - 2) {
+            const id = define('LightningComponentBundle', segments[folderIndex('lwc') + 1]);
+            if (base.endsWith('.js-meta.xml')) {
+                // Exposed components can be dropped onto pages, which the scan does not read
+                const [exposed] = xmlValues(fs.readFileSync(file, 'utf8'), 'isExposed');
+                if (exposed === 'true') components.get(id)!.entryPoint = 'Exposed in Lightning App Builder';
+            } else if (base.endsWith('.js') && !base.endsWith('.test.js') && !segments.includes('__tests__')) {
+                sources.push({ file, componentId: id, kind: 'lwcJs' });
+            } else if (base.endsWith('.html')) {
+                sources.push({ file, componentId: id, kind: 'lwcHtml' });
+            }
+        } else if (folderIndex('aura') >= 0 && folderIndex('aura') < segments.length - 2) {
+            const id = define('AuraDefinitionBundle', segments[folderIndex('aura') + 1]);
+            if (/\.(cmp|app|evt|intf|design)$/.test(base)) {
+                sources.push({ file, componentId: id, kind: 'aura' });
+            }
+        } else if (base.endsWith('.flow-meta.xml')) {
+            const id = define('Flow', base.slice(0, -'.flow-meta.xml'.length));
+            sources.push({ file, componentId: id, kind: 'flow' });
+        } else if (folderIndex('objects') >= 0) {
+            const objectName = segments[folderIndex('objects') + 1];
+            // Standard objects show up here too when the project customizes them, like sf org list metadata -m CustomObject
+            const objectId = define('CustomObject', objectName);
+            if (base.endsWith('.field-meta.xml') && segments[segments.length - 2] === 'fields') {
+                const fieldId = define('CustomField', `${objectName}.${base.slice(0, -'.field-meta.xml'.length)}`);
+                addEdge(fieldId, objectId);
+                sources.push({ file, componentId: fieldId, kind: 'field', objectName });
+            }
+        } else if (base.endsWith('.labels-meta.xml')) {
+            const xml = fs.readFileSync(file, 'utf8');
+            for (const label of xmlBlocks(xml, 'labels')) {
+                const [name] = xmlValues(label, 'fullName');
+                if (name) define('CustomLabel', name);
+            }
+        } else if (base.endsWith('.resource-meta.xml') && folderIndex('staticresources') >= 0) {
+            define('StaticResource', base.slice(0, -'.resource-meta.xml'.length));
+        }
+    }
+
+    // Field API names without their object, e.g. tier__c -> [Account.Tier__c, Contact.Tier__c]
+    const fieldsByApiName = new Map<string, string[]>();
+    for (const c of components.values()) {
+        if (c.type !== 'CustomField') continue;
+        const apiName = c.name.split('.')[1].toLowerCase();
+        fieldsByApiName.set(apiName, [...(fieldsByApiName.get(apiName) || []), c.id]);
+    }
+
+    const fieldRef = (objectName: string, fieldName: string) => {
+        if (!fieldName.toLowerCase().endsWith('__c')) return undefined; // standard fields are not components
+        return lookup('CustomField', `${objectName}.${fieldName}`) || define('CustomField', `${objectName}.${fieldName}`);
+    };
+
+    // Pass 2: resolve references from each source file
+    for (const source of sources) {
+        const content = fs.readFileSync(source.file, 'utf8');
+        const from = source.componentId;
+
+        switch (source.kind) {
+            case 'apex': {
+                const { withoutComments, code } = stripApex(content);
+                if (from.startsWith('ApexClass:')) components.get(from)!.entryPoint = apexEntryPoint(content);
+                const identifiers = new Set(allMatches(code, /([A-Za-z_][A-Za-z0-9_]*)/g).map(i => i.toLowerCase()));
+
+                for (const name of identifiers) {
+                    addEdge(from, lookup('ApexClass', name));
+                    addEdge(from, lookup('CustomObject', name) || lookup('StandardEntity', name));
+                    // Unqualified field names: prefer fields on objects the code also mentions
+                    const fields = fieldsByApiName.get(name) || [];
+                    const onMentioned = fields.filter(id => identifiers.has(components.get(id)!.name.split('.')[0].toLowerCase()));
+                    for (const id of (onMentioned.length > 0 ? onMentioned : fields)) addEdge(from, id);
+                }
+                for (const label of allMatches(withoutComments, /\bLabel\.([A-Za-z0-9_]+)/g)) {
+                    addEdge(from, lookup('CustomLabel', label) || define('CustomLabel', label));
+                }
+                const trigger = /^\s*trigger\s+\w+\s+on\s+(\w+)/im.exec(code);
+                if (trigger) addEdge(from, objectRef(trigger[1]));
+                break;
+            }
+            case 'lwcJs': {
+                const imports = allMatches(content, /import\s+(?:[\s\S]*?\s+from\s+)?['"]([^'"]+)['"]/g);
+                for (const spec of imports) {
+                    if (spec.startsWith('@salesforce/apex/')) {
+                        // @salesforce/apex/[namespace.]Class.method
+                        const parts = spec.slice('@salesforce/apex/'.length).split('.');
+                        const className = parts.length > 2 ? `${parts[0]}.${parts[1]}` : parts[0];
+                        addEdge(from, lookup('ApexClass', className) || define('ApexClass', className));
+                    } else if (spec.startsWith('@salesforce/schema/')) {
+                        const [objectName, fieldName] = spec.slice('@salesforce/schema/'.length).split('.');
+                        addEdge(from, fieldName ? fieldRef(objectName, fieldName) || objectRef(objectName) : objectRef(objectName));
+                    } else if (spec.startsWith('@salesforce/label/')) {
+                        const name = spec.slice('@salesforce/label/'.length).replace(/^c\./, '');
+                        addEdge(from, lookup('CustomLabel', name) || define('CustomLabel', name));
+                    } else if (spec.startsWith('@salesforce/resourceUrl/')) {
+                        const name = spec.slice('@salesforce/resourceUrl/'.length);
+                        addEdge(from, lookup('StaticResource', name) || define('StaticResource', name));
+                    } else if (spec.startsWith('c/')) {
+                        const name = spec.slice(2);
+                        addEdge(from, lookup('LightningComponentBundle', name) || define('LightningComponentBundle', name));
+                    }
+                }
+                break;
+            }
+            case 'lwcHtml': {
+                for (const tag of allMatches(content, /<c-([a-z0-9-]+)/g)) {
+                    const name = kebabToCamel(tag);
+                    addEdge(from, lookup('LightningComponentBundle', name) || define('LightningComponentBundle', name));
+                }
+                break;
+            }
+            case 'aura': {
+                if (AURA_ENTRY_POINTS.test(content)) components.get(from)!.entryPoint = 'Exposed in Lightning App Builder';
+                for (const className of allMatches(content, /controller\s*=\s*"([^"]+)"/g)) {
+                    addEdge(from, lookup('ApexClass', className) || define('ApexClass', className));
+                }
+                // <c:name> can be another Aura bundle or an LWC
+                for (const name of allMatches(content, /<c:([A-Za-z0-9_]+)/g)) {
+                    addEdge(from, lookup('AuraDefinitionBundle', name) || lookup('LightningComponentBundle', name) ||
+                        define('AuraDefinitionBundle', name));
+                }
+                for (const label of allMatches(content, /\$Label\.c\.([A-Za-z0-9_]+)/g)) {
+                    addEdge(from, lookup('CustomLabel', label) || define('CustomLabel', label));
+                }
+                for (const resource of allMatches(content, /\$Resource\.([A-Za-z0-9_]+)/g)) {
+                    addEdge(from, lookup('StaticResource', resource) || define('StaticResource', resource));
+                }
+                break;
+            }
+            case 'flow': {
+                for (const action of xmlBlocks(content, 'actionCalls')) {
+                    const [actionType] = xmlValues(action, 'actionType');
+                    const [actionName] = xmlValues(action, 'actionName');
+                    if (actionType === 'apex' && actionName) {
+                        addEdge(from, lookup('ApexClass', actionName) || define('ApexClass', actionName));
+                    }
+                }
+                for (const subflow of xmlBlocks(content, 'subflows')) {
+                    for (const name of xmlValues(subflow, 'flowName')) {
+                        addEdge(from, lookup('Flow', name) || define('Flow', name));
+                    }
+                }
+                // Record elements name their object and the fields they read or write
+                for (const tag of ['start', 'recordLookups', 'recordCreates', 'recordUpdates', 'recordDeletes']) {
+                    for (const block of xmlBlocks(content, tag)) {
+                        const [objectName] = xmlValues(block, 'object');
+                        if (!objectName) continue;
+                        addEdge(from, objectRef(objectName));
+                        for (const field of [...xmlValues(block, 'field'), ...xmlValues(block, 'queriedFields')]) {
+                            addEdge(from, fieldRef(objectName, field));
+                        }
+                    }
+                }
+                for (const label of allMatches(content, /\$Label\.([A-Za-z0-9_]+)/g)) {
+                    addEdge(from, lookup('CustomLabel', label) || define('CustomLabel', label));
+                }
+                break;
+            }
+            case 'field': {
+                const objectName = source.objectName!;
+                for (const target of xmlValues(content, 'referenceTo')) {
+                    addEdge(from, objectRef(target));
+                }
+                // Roll-up summaries name "Object.Field" targets
+                for (const ref of [...xmlValues(content, 'summarizedField'), ...xmlValues(content, 'summaryForeignKey')]) {
+                    const [refObject, refField] = ref.split('.');
+                    if (refField) addEdge(from, fieldRef(refObject, refField));
+                }
+                for (const formula of [...xmlValues(content, 'formula'), ...xmlValues(content, 'defaultValue')]) {
+                    for (const token of allMatches(formula, /([A-Za-z0-9_]+__c)\b/g)) {
+                        addEdge(from, lookup('CustomField', `${objectName}.${token}`));
+                    }
+                    for (const label of allMatches(formula, /\$Label\.([A-Za-z0-9_]+)/g)) {
+                        addEdge(from, lookup('CustomLabel', label) || define('CustomLabel', label));
+                    }
+                }
+                break;
+            }
+        }
+    }
+
+    return {
+        components: Array.from(components.values()),
+        edges: Array.from(edges.values()),
+        files: files.length
+    };
+}
@@ -0,0 +1,305 @@
+import { fetchAllMetadata, fetchApexStats, fetchAllDependencies, SyncFailure, SyncProgress } from './salesforce';
+import {
+  clearDependencies, insertComponents, upsertComponents, updateComponentStats, insertDependencyEdges,
+  getComponentModifiedDates, deleteComponents, deleteEdgesForSources, recordSyncFailures, getSyncFailures,
+  clearSyncFailures, rebuildSearchIndex, runInTransaction, startSyncState, getSyncState, finishSyncState, addCheckpoints, getCheckpoints,
+  getComponentsByIds, setEntryPoints, COMPONENT_ATTRIBUTES, ComponentRecord
+} from './db';
+import { ApexStatsKind, DataSource } from './dataSource';
+import { DEFAULT_SYNC_FILTERS, isComponentIncluded, isTypeIncluded, SyncFilters } from './syncConfig';
+import { updateRiskScores } from './risk';
+
+// How many extra attempts --retry-failed makes per request
+const RETRY_ATTEMPTS = 4;
+
+export interface SyncOptions {
+  incremental?: boolean;
+  retryFailed?: boolean;
+  resume?: boolean;
+  // The database was just deleted, so there is nothing to clear
+  cleaned?: boolean;
+  onProgress?: (progress: SyncProgress) => void;
+  // Include/exclude rules for types, names and namespaces, see loadSyncFilters
+  filters?: SyncFilters;
+}
+
+function toComponentRecords(allMeta: any[]): ComponentRecord[] {
+  return allMeta.map((m: any) => {
+      const record: ComponentRecord = {
+          id: m.id || m.fileName, // fallback for components without ID
+          name: m.fullName,
+          type: m.type
+      };
+      for (const attribute of COMPONENT_ATTRIBUTES) {
+          // namespacePrefix is an empty string for unmanaged components
+          if (m[attribute]) record[attribute] = m[attribute];
+      }
+      return record;
+  }).filter(c => c.id); // Must have ID/Key
+}
+
+// Store dependency records returned by the Tooling API as nodes and edges
+function saveDependencyRecords(dependencies: any[], filters: SyncFilters = DEFAULT_SYNC_FILTERS) {
+  // Extract any components found in dependencies that we might have missed in the initial listing
+  const extraComponentsMap = new Map<string, ComponentRecord>();
+
+  for (const d of dependencies) {
+      if (d.MetadataComponentId) {
+          extraComponentsMap.set(d.MetadataComponentId, {
+              id: d.MetadataComponentId,
+              name: d.MetadataComponentName,
+              type: d.MetadataComponentType
+          });
+      }
+      if (d.RefMetadataComponentId) {
+          const record: ComponentRecord = {
+              id: d.RefMetadataComponentId,
+              name: d.RefMetadataComponentName,
+              type: d.RefMetadataComponentType
+          };
+          if (d.RefMetadataComponentNamespace) record.namespacePrefix = d.RefMetadataComponentNamespace;
+          extraComponentsMap.set(d.RefMetadataComponentId, record);
+      }
+  }
+
+  // Sources were all listed, but referenced components the filters would have
+  // skipped in the listing are left out here too, together with their edges
+  const stored = new Set(getComponentsByIds(Array.from(extraComponentsMap.keys())).map(c => c.id));
+  const excluded = new Set<string>();
+  for (const c of extraComponentsMap.values()) {
+      if (stored.has(c.id)) continue;
+      if (!isTypeIncluded(filters, c.type) || !isComponentIncluded(filters, { fullName: c.name, namespacePrefix: c.namespacePrefix })) {
+          excluded.add(c.id);
+      }
+  }
+
+  const extraComponents = Array.from(extraComponentsMap.values()).filter(c => !excluded.has(c.id));
+  if (extraComponents.length > 0) {
+      insertComponents(extraComponents);
+  }
+
+  const edges = dependencies.map((d: any) => ({
+      sourceId: d.MetadataComponentId,
+      targetId: d.RefMetadataComponentId
+  })).filter((e: any) => e.sourceId && e.targetId && !excluded.has(e.targetId));
+
+  insertDependencyEdges(edges);
+}
+
+// Persist the failures collected so far, so an interruption does not lose them
+function flushFailures(failures: SyncFailure[], recorded: SyncFailure[]) {
+  recordSyncFailures(failures);
+  recorded.push(...failures);
+  failures.length = 0;
+}
+
+// Run a sync against source and return every failure it recorded
+export async function syncOrg(source: DataSource, options: SyncOptions = {}) {
+  const failures: SyncFailure[] = [];
+  if (options.retryFailed) {
+    await retryFailedSync(source, failures, options);
+    // The old failures are only replaced once the retry has finished, so an
+    // interrupted retry leaves them in place to be retried again
+    runInTransaction(() => {
+      clearSyncFailures();
+      recordSyncFailures(failures);
+    });
+    rebuildSearchIndex();
+    updateRiskScores();
+    return failures;
+  }
+
+  let incremental = !!options.incremental;
+  let resuming = false;
+
+  if (options.resume) {
+    const state = getSyncState();
+    if (!state || state.status !== 'running') {
+      throw new Error('No interrupted sync to resume, run a normal sync instead');
+    }
+    incremental = state.mode === 'incremental';
+    resuming = true;
+    console.log(`      Resuming ${state.mode} sync started at ${state.startedAt}...`);
+  } else {
+    if (incremental) {
+      // Every type and stats query is listed again, but unchanged components keep their failed ID batches
+      clearSyncFailures(['metadata', 'apexStats']);
+    } else {
+      if (!options.cleaned) {
+        clearDependencies(); // Only needed if we didn't just delete the DB
+      }
+      clearSyncFailures();
+    }
+    startSyncState(incremental ? 'incremental' : 'full');
+  }
+
+  const recorded: SyncFailure[] = [];
+  const stages = getCheckpoints('stage');
+
+  // 1. Fetch all metadata components (nodes)
+  if (!stages.has('metadata')) {
+    if (incremental) {
+      await listIncremental(source, failures, options);
+    } else {
+      await listFull(source, failures, options);
+    }
+    addCheckpoints('stage', ['metadata']);
+    flushFailures(failures, recorded);
+  }
+
+  // 2. Fetch stats (size/coverage)
+  if (!stages.has('apexStats')) {
+    const stats = await fetchApexStats(source, failures, { onProgress: options.onProgress });
+    console.log(`      Saving stats for ${stats.length} components...`);
+    runInTransaction(() => {
+      updateComponentStats(stats);
+      setEntryPoints(stats);
+      addCheckpoints('stage', ['apexStats']);
+    });
+    flushFailures(failures, recorded);
+  }
+
+  // 3. Fetch dependencies, saving each batch as soon as it arrives
+  const planned = getCheckpoints('scan');
+  const scanned = getCheckpoints('dependencies');
+  const componentsToScan = Array.from(planned).filter(id => !scanned.has(id)).map(id => ({ id }));
+  if (scanned.size > 0) {
+    console.log(`\n      Skipping ${scanned.size} components scanned before the interruption.`);
+  }
+
+  const dependencies = await fetchAllDependencies(source, componentsToScan, failures, {
+    onProgress: options.onProgress,
+    onBatchFetched: (ids, records) => runInTransaction(() => {
+      saveDependencyRecords(records, options.filters);
+      addCheckpoints('dependencies', ids);
+    })
+  });
+  console.log(`      Saved ${dependencies.length} dependency edges.`);
+  flushFailures(failures, recorded);
+
+  console.log(`      Rebuilding search index...`);
+  rebuildSearchIndex();
+  console.log(`      Scoring risk...`);
+  updateRiskScores();
+  finishSyncState();
+  return recorded;
+}
+
+// Full listing: every type is saved and checkpointed as soon as it has been listed
+async function listFull(source: DataSource, failures: SyncFailure[], options: SyncOptions) {
+  const listedTypes = getCheckpoints('metadata');
+
+  await fetchAllMetadata(source, failures, {
+    onProgress: options.onProgress,
+    filters: options.filters,
+    skipTypes: listedTypes,
+    onTypeFetched: (type, records) => runInTransaction(() => {
+      insertComponents(toComponentRecords(records));
+      addCheckpoints('scan', records.filter((m: any) => m.id).map((m: any) => m.id));
+      addCheckpoints('metadata', [type]);
+    })
+  });
+}
+
+// Incremental listing: the whole listing is compared against the stored components
+// before anything is written, then the changes are applied in one transaction.
+async function listIncremental(source: DataSource, failures: SyncFailure[], options: SyncOptions) {
+  const allMeta = await fetchAllMetadata(source, failures, { onProgress: options.onProgress, filters: options.filters });
+  const componentRecords = toComponentRecords(allMeta);
+
+  // Compare the listing against what the previous sync stored
+  const stored = getComponentModifiedDates();
+  const listedIds = new Set(componentRecords.map(c => c.id));
+  const failedTypes = new Set(failures.filter(f => f.phase === 'metadata').map(f => f.key));
+
+  const added = componentRecords.filter(c => !stored.has(c.id));
+  const changed = componentRecords.filter(c => {
+      const prev = stored.get(c.id);
+      return prev && prev.lastModifiedDate !== c.lastModifiedDate;
+  });
+  // A type that failed to list is not pruned, its components are just missing from this listing
+  const removed = Array.from(stored.entries())
+      .filter(([id, prev]) => !listedIds.has(id) && !failedTypes.has(prev.type))
+      .map(([id]) => id);
+
+  console.log(`      Incremental: ${added.length} added, ${changed.length} changed, ${removed.length} removed.`);
+
+  const rescanIds = new Set([...added, ...changed].map(c => c.id));
+  const scanIds = allMeta.filter((m: any) => m.id && rescanIds.has(m.id)).map((m: any) => m.id);
+
+  runInTransaction(() => {
+      if (removed.length > 0) {
+          console.log(`      Pruning ${removed.length} removed components and their edges...`);
+          deleteComponents(removed);
+      }
+      deleteEdgesForSources(Array.from(rescanIds));
+
+      console.log(`      Saving ${componentRecords.length} components...`);
+      upsertComponents(componentRecords);
+      addCheckpoints('scan', scanIds);
+  });
+}
+
+// Re-run only the pieces recorded in sync_failures, with exponential backoff
+async function retryFailedSync(source: DataSource, failures: SyncFailure[], options: SyncOptions) {
+  const { onProgress, filters } = options;
+  const previous = getSyncFailures();
+  if (previous.length === 0) {
+    console.log('      No recorded failures to retry.');
+    return;
+  }
+  console.log(`      Retrying ${previous.length} failed pieces...`);
+
+  const types = previous.filter(f => f.phase === 'metadata').map(f => f.key);
+  const kinds = previous.filter(f => f.phase === 'apexStats').map(f => f.key as ApexStatsKind);
+  const ids = previous.filter(f => f.phase === 'dependencies').flatMap(f => f.ids || []);
+
+  const componentsToScan: any[] = ids.map(id => ({ id }));
+
+  if (types.length > 0) {
+    const meta = await fetchAllMetadata(source, failures, { types, retries: RETRY_ATTEMPTS, onProgress, filters });
+    const componentRecords = toComponentRecords(meta);
+    console.log(`      Saving ${componentRecords.length} components...`);
+    upsertComponents(componentRecords);
+    // Components of a type that failed to list never had their dependencies queried
+    componentsToScan.push(...meta);
+  }
+
+  if (kinds.length > 0) {
+    const stats = await fetchApexStats(source, failures, { kinds, retries: RETRY_ATTEMPTS, onProgress });
+    console.log(`      Saving stats for ${stats.length} components...`);
+    runInTransaction(() => {
+      updateComponentStats(stats);
+      setEntryPoints(stats);
+    });
+  }
+
+  if (componentsToScan.length > 0) {
+    // Each batch replaces the edges its sources had, like an incremental sync,
+    // so retrying a batch again after an interruption adds no duplicates
+    const dependencies = await fetchAllDependencies(source, componentsToScan, failures, {
+      retries: RETRY_ATTEMPTS,
+      onProgress,
+      onBatchFetched: (batchIds, records) => runInTransaction(() => {
+        deleteEdgesForSources(batchIds);
+        saveDependencyRecords(records, filters);
+      })
+    });
+    console.log(`      Saved ${dependencies.length} dependency edges.`);
+  }
+}
+
+export function reportSyncResult(failures: SyncFailure[], targetOrg: string) {
+  if (failures.length === 0) {
+    console.log(`\nDone! Sync complete.`);
+    return;
+  }
+
+  const count = (phase: SyncFailure['phase']) => failures.filter(f => f.phase === phase).length;
+  console.warn(`\nSync finished with ${failures.length} failures ` +
+    `(${count('metadata')} metadata types, ${count('apexStats')} stats queries, ${count('dependencies')} dependency batches):`);
+  for (const f of failures) {
+    console.warn(`  - [${f.phase}] ${f.key}: ${f.error}`);
+  }
+  console.warn(`Run "dep-viewer sync -o ${targetOrg} --retry-failed" to retry only these.`);
+}
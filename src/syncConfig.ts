@@ -0,0 +1,140 @@
+import fs from 'fs';
+
+export const CONFIG_FILE = 'dep-viewer.config.json';
+
+// Wildcard patterns ("*" matches anything, case-insensitive). An empty or missing
+// include list includes everything; exclude wins over include.
+export interface PatternRule {
+    include?: string[];
+    exclude?: string[];
+}
+
+// What a sync lists: metadata types, component full names and namespaces.
+// The empty namespace "" stands for unmanaged components.
+export interface SyncFilters {
+    types?: PatternRule;
+    names?: PatternRule;
+    namespaces?: PatternRule;
+}
+
+// dep-viewer.config.json: defaults plus per-org overrides, keyed by the -o alias,
+// whether the built-in exclusions apply, and how many sync runs the history keeps
+interface SyncConfigFile {
+    default?: SyncFilters;
+    orgs?: Record<string, SyncFilters>;
+    builtInExcludes?: boolean;
+    keepRuns?: number;
+}
+
+// Built-in exclusions the config file's rules are added to, unless it sets
+// "builtInExcludes": false: system types that are not metadata or cause issues
+export const DEFAULT_SYNC_FILTERS: SyncFilters = {
+    types: {
+        exclude: ['User', 'Group', 'Organization', 'DataType', 'EntityDefinition', '*History', '*Share', '*Feed']
+    }
+};
+
+const RULE_KEYS = ['types', 'names', 'namespaces'] as const;
+
+export function toRegExp(pattern: string) {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function matchesRule(value: string, rule?: PatternRule) {
+    if (!rule) return true;
+    const matches = (patterns?: string[]) => (patterns || []).some(p => toRegExp(p).test(value));
+    if (rule.include && rule.include.length > 0 && !matches(rule.include)) return false;
+    return !matches(rule.exclude);
+}
+
+function validateFilters(filters: unknown, where: string, configPath: string): asserts filters is SyncFilters {
+    if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+        throw new Error(`${configPath}: ${where} must be an object`);
+    }
+    for (const [key, rule] of Object.entries(filters)) {
+        if (!(RULE_KEYS as readonly string[]).includes(key)) {
+            throw new Error(`${configPath}: unknown key "${key}" in ${where}, expected ${RULE_KEYS.join(', ')}`);
+        }
+        if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+            throw new Error(`${configPath}: ${where}.${key} must be an object with include and/or exclude lists`);
+        }
+        for (const list of ['include', 'exclude'] as const) {
+            const patterns: unknown = (rule as PatternRule)[list];
+            if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(p => typeof p !== 'string'))) {
+                throw new Error(`${configPath}: ${where}.${key}.${list} must be a list of patterns`);
+            }
+        }
+    }
+}
+
+// Lay override over base: every include or exclude list it sets replaces the one in base
+function mergeFilters(base: SyncFilters, override: SyncFilters): SyncFilters {
+    const merged: SyncFilters = { ...base };
+    for (const key of RULE_KEYS) {
+        if (override[key]) merged[key] = { ...base[key], ...override[key] };
+    }
+    return merged;
+}
+
+// Add the exclude lists of extra to filters, keeping everything else of filters
+function addExcludes(filters: SyncFilters, extra: SyncFilters): SyncFilters {
+    const merged: SyncFilters = { ...filters };
+    for (const key of RULE_KEYS) {
+        const excludes = extra[key]?.exclude;
+        if (!excludes) continue;
+        const own = filters[key]?.exclude || [];
+        merged[key] = { ...filters[key], exclude: [...excludes, ...own.filter(p => !excludes.includes(p))] };
+    }
+    return merged;
+}
+
+function readConfig(configPath: string): SyncConfigFile | undefined {
+    if (!fs.existsSync(configPath)) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (e: any) {
+        throw new Error(`Could not parse ${configPath}: ${e.message}`);
+    }
+}
+
+// Filters for targetOrg: the org's own section laid over the config's default section,
+// each list it sets replacing that list, plus the built-in exclusions
+export function loadSyncFilters(targetOrg: string, configPath = CONFIG_FILE): SyncFilters {
+    const config = readConfig(configPath);
+    if (!config) {
+        return DEFAULT_SYNC_FILTERS;
+    }
+
+    const defaults = config.default || {};
+    validateFilters(defaults, 'default', configPath);
+    const orgFilters = (config.orgs && config.orgs[targetOrg]) || {};
+    validateFilters(orgFilters, `orgs.${targetOrg}`, configPath);
+    if (config.builtInExcludes !== undefined && typeof config.builtInExcludes !== 'boolean') {
+        throw new Error(`${configPath}: builtInExcludes must be true or false`);
+    }
+
+    const filters = mergeFilters(defaults, orgFilters);
+    return config.builtInExcludes === false ? filters : addExcludes(filters, DEFAULT_SYNC_FILTERS);
+}
+
+// Number of sync runs to keep in the history, undefined for the built-in default
+export function loadKeepRuns(configPath = CONFIG_FILE): number | undefined {
+    const keepRuns = readConfig(configPath)?.keepRuns;
+    if (keepRuns !== undefined && (!Number.isInteger(keepRuns) || keepRuns < 1)) {
+        throw new Error(`${configPath}: keepRuns must be a positive whole number`);
+    }
+    return keepRuns;
+}
+
+export function isTypeIncluded(filters: SyncFilters, type: string) {
+    return matchesRule(type, filters.types);
+}
+
+// record is a listMetadata record (fullName, namespacePrefix)
+export function isComponentIncluded(filters: SyncFilters, record: any) {
+    return matchesRule(record.fullName || '', filters.names)
+        && matchesRule(record.namespacePrefix || '', filters.namespaces);
+}
@@ -0,0 +1,76 @@
+import { DataSource } from './dataSource';
+import { createSnapshot } from './db';
+import { SyncFailure, SyncProgress } from './salesforce';
+import { syncOrg } from './sync';
+import { loadKeepRuns, loadSyncFilters } from './syncConfig';
+
+export type SyncMode = 'full' | 'incremental' | 'retry-failed';
+
+// Events streamed to the web UI while a sync started from the server runs
+export type SyncEvent =
+    | { type: 'state', status: SyncJobState['status'], mode?: SyncMode, progress?: SyncProgress }
+    | { type: 'start', mode: SyncMode }
+    | ({ type: 'progress' } & SyncProgress)
+    | { type: 'done', runId: number, failures: SyncFailure[] }
+    | { type: 'failed', error: string };
+
+interface SyncJobState {
+    status: 'idle' | 'running' | 'done' | 'failed';
+    mode?: SyncMode;
+    progress?: SyncProgress;
+}
+
+// One sync at a time for the org the server was started for
+export function createSyncJob(source: DataSource, targetOrg: string) {
+    const listeners = new Set<(event: SyncEvent) => void>();
+    const state: SyncJobState = { status: 'idle' };
+
+    const emit = (event: SyncEvent) => listeners.forEach(listener => listener(event));
+
+    async function run(mode: SyncMode) {
+        try {
+            // Read on every run, so config changes apply without restarting the server
+            const filters = loadSyncFilters(targetOrg);
+            const failures = await syncOrg(source, {
+                filters,
+                incremental: mode === 'incremental',
+                retryFailed: mode === 'retry-failed',
+                onProgress: (progress) => {
+                    state.progress = progress;
+                    emit({ type: 'progress', ...progress });
+                }
+            });
+            const runId = createSnapshot(targetOrg, mode, failures.length, loadKeepRuns());
+            state.status = 'done';
+            emit({ type: 'done', runId, failures });
+        } catch (e: any) {
+            console.error('Sync failed:', e.message);
+            state.status = 'failed';
+            emit({ type: 'failed', error: e.message });
+        }
+    }
+
+    return {
+        isRunning: () => state.status === 'running',
+
+        start(mode: SyncMode) {
+            if (state.status === 'running') {
+                throw new Error('A sync is already running');
+            }
+            console.log(`\n=== Starting ${mode} sync for org: ${targetOrg} (requested from the web UI) ===`);
+            state.status = 'running';
+            state.mode = mode;
+            state.progress = undefined;
+            emit({ type: 'start', mode });
+            // Not awaited, progress is reported through the event stream
+            run(mode);
+        },
+
+        // Returns an unsubscribe function; the listener first gets the current state
+        subscribe(listener: (event: SyncEvent) => void) {
+            listener({ type: 'state', status: state.status, mode: state.mode, progress: state.progress });
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        }
+    };
+}
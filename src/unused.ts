@@ -0,0 +1,155 @@
+import { getComponents, getDependencyAdjacency, ComponentRecord } from './db';
+
+// Types that can go unused. Triggers, layouts, Lightning pages, apps, tabs,
+// permission sets and profiles are run or assigned by the platform itself, so
+// they are never reported. Flows are left out because an org sync cannot tell
+// record-triggered flows from unused ones.
+export const UNUSED_CANDIDATE_TYPES = [
+    'ApexClass',
+    'ApexComponent',
+    'AuraDefinitionBundle',
+    'CustomField',
+    'CustomLabel',
+    'CustomObject',
+    'EmailTemplate',
+    'LightningComponentBundle',
+    'StaticResource'
+];
+
+// Test classes whose body was never read, e.g. in databases synced before
+// entry points were, where the @isTest annotation is not available
+const TEST_CLASS_NAME = /(^Test|Tests?$|_Test$)/i;
+
+export interface UnusedComponent {
+    id: string;
+    name: string;
+    type: string;
+    size: number | null;
+    coverage: number | null;
+    lastModifiedDate: string | null;
+    // Empty when nothing references the component, otherwise the names of the
+    // unused components that do
+    referencedBy: string[];
+    // Test classes that would go with it
+    testedBy: string[];
+}
+
+export interface UnusedReport {
+    candidates: UnusedComponent[];
+    // Unreferenced components kept because they are entry points, counted by reason
+    entryPoints: Record<string, number>;
+    // Apex classes left out because nobody could check whether they are entry points
+    unchecked: number;
+}
+
+type StoredComponent = ComponentRecord & { size: number | null, coverage: number | null, entryPoint: string | null };
+
+function entryPointReason(component?: StoredComponent) {
+    if (!component) return undefined;
+    if (component.entryPoint) return component.entryPoint;
+    if (isTestClass(component)) return 'Test class (by name)';
+    return undefined;
+}
+
+// @isTest classes, or classes named like tests when their body was never read
+export function isTestClass(component: { type: string, name: string, entryPoint?: string | null }) {
+    if (component.type !== 'ApexClass') return false;
+    return component.entryPoint != null ? component.entryPoint === 'Test class' : TEST_CLASS_NAME.test(component.name);
+}
+
+// Components that nothing in use reaches: everything that is not a candidate and
+// every entry point marks what it references, and the candidates left unmarked are
+// unused. A dead class takes its helper classes and labels with it, and classes
+// that only reference each other are found too. Managed package components are
+// skipped as they cannot be deleted.
+export function findUnused(types: string[] = UNUSED_CANDIDATE_TYPES): UnusedReport {
+    const components = new Map((getComponents() as StoredComponent[]).map(c => [c.id, c]));
+    const isTest = (id: string) => entryPointReason(components.get(id))?.startsWith('Test class');
+
+    // Tests don't keep the code they cover alive, they are listed next to it instead
+    const uses = new Map<string, string[]>();
+    const referencedBy = new Map<string, string[]>();
+    const testedBy = new Map<string, string[]>();
+    getDependencyAdjacency().forEach((targets, source) => {
+        const refs = isTest(source) ? testedBy : referencedBy;
+        for (const target of targets) {
+            if (target === source) continue;
+            if (!refs.has(target)) refs.set(target, []);
+            refs.get(target)!.push(source);
+        }
+        if (!isTest(source)) uses.set(source, targets);
+    });
+
+    const entryPoints: Record<string, number> = {};
+    let unchecked = 0;
+    const eligible = new Map<string, StoredComponent>();
+    for (const component of components.values()) {
+        if (!types.includes(component.type) || component.namespacePrefix) continue;
+        // Standard objects show up as CustomObject when a project customizes them
+        if (component.type === 'CustomObject' && !/__c$/i.test(component.name)) continue;
+        const reason = entryPointReason(component);
+        if (reason) {
+            if (!referencedBy.has(component.id)) entryPoints[reason] = (entryPoints[reason] || 0) + 1;
+            continue;
+        }
+        // A REST resource or scheduled job looks unreferenced, so without its body it is not reported
+        if (component.type === 'ApexClass' && component.entryPoint == null) {
+            unchecked++;
+            continue;
+        }
+        eligible.set(component.id, component);
+    }
+
+    // Mark every candidate reachable from a component that is in use
+    const used = new Set<string>();
+    const queue = Array.from(uses.keys()).filter(id => !eligible.has(id));
+    for (let i = 0; i < queue.length; i++) {
+        for (const target of uses.get(queue[i]) || []) {
+            if (!eligible.has(target) || used.has(target)) continue;
+            used.add(target);
+            queue.push(target);
+        }
+    }
+    const unused = new Set(Array.from(eligible.keys()).filter(id => !used.has(id)));
+
+    const names = (ids: string[] = []) => ids.map(id => components.get(id)?.name || id);
+    const candidates = Array.from(eligible.values()).filter(c => unused.has(c.id)).map(c => ({
+        id: c.id,
+        name: c.name,
+        type: c.type,
+        size: c.size,
+        coverage: c.coverage,
+        lastModifiedDate: c.lastModifiedDate || null,
+        referencedBy: names(referencedBy.get(c.id)),
+        testedBy: names(testedBy.get(c.id))
+    })).sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+
+    return { candidates, entryPoints, unchecked };
+}
+
+export function printUnused(report: UnusedReport) {
+    const kept = Object.entries(report.entryPoints);
+    if (kept.length > 0) {
+        console.log(`Kept as entry points: ${kept.map(([reason, count]) => `${count} ${reason}`).join(', ')}`);
+    }
+    if (report.unchecked > 0) {
+        console.log(`Skipped ${report.unchecked} Apex classes that were not checked for entry points, sync again to check them.`);
+    }
+    if (report.candidates.length === 0) {
+        console.log('No unused components found.');
+        return;
+    }
+    console.log(`Found ${report.candidates.length} deletion candidates.`);
+
+    const byType = new Map<string, UnusedComponent[]>();
+    report.candidates.forEach(c => byType.set(c.type, [...(byType.get(c.type) || []), c]));
+    byType.forEach((candidates, type) => {
+        console.log(`\n${type} (${candidates.length})`);
+        for (const c of candidates) {
+            const size = c.size !== null ? `, size ${c.size}` : '';
+            const via = c.referencedBy.length > 0 ? ` - only used by ${c.referencedBy.join(', ')}` : '';
+            const tests = c.testedBy.length > 0 ? ` (tests: ${c.testedBy.join(', ')})` : '';
+            console.log(`  ${c.name}${size}${via}${tests}`);
+        }
+    });
+}
@@ -0,0 +1,56 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getAllDependencies, getComponentByName, getComponents, getSyncFailures, initDb } from '../src/db';
+import { createFixtureSource, createRecordingSource } from '../src/fixtureSource';
+import { syncOrg } from '../src/sync';
+
+const SAMPLE_ORG = path.join(__dirname, '..', 'fixtures', 'sample-org');
+
+describe('fixture source', () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-viewer-test-'));
+
+    before(() => {
+        // getDb opens DATABASE_PATH on first use
+        process.env.DATABASE_PATH = path.join(tmp, 'sample-org.db');
+        initDb();
+    });
+
+    after(() => {
+        fs.rmSync(tmp, { recursive: true, force: true });
+    });
+
+    it('replays the sample org through a full sync', async () => {
+        const failures = await syncOrg(createFixtureSource(SAMPLE_ORG), { cleaned: true });
+
+        assert.deepEqual(failures, []);
+        assert.deepEqual(getSyncFailures(), []);
+        assert.equal(getComponents().length, 10);
+        assert.equal(getAllDependencies().length, 9);
+
+        const service = getComponentByName('ApexClass', 'AccountService')!;
+        assert.equal(service.size, 1200);
+        assert.equal(service.coverage, 90);
+        assert.equal(getComponentByName('ApexTrigger', 'AccountTrigger')!.coverage, 100);
+    });
+
+    it('numbers recorded batches after the ones already in the directory', async () => {
+        const dir = path.join(tmp, 'recorded');
+        const ids = (getComponents() as { id: string }[]).map(c => c.id);
+        const trigger = getComponentByName('ApexTrigger', 'AccountTrigger')!;
+
+        // Two recordings into the same directory, as two sync runs would do
+        await createRecordingSource(createFixtureSource(SAMPLE_ORG), dir).queryDependencies(ids);
+        await createRecordingSource(createFixtureSource(SAMPLE_ORG), dir).queryDependencies([trigger.id]);
+
+        const batchDir = path.join(dir, 'dependencies');
+        assert.deepEqual(fs.readdirSync(batchDir).sort(), ['batch-000001.json', 'batch-000002.json']);
+        assert.equal(JSON.parse(fs.readFileSync(path.join(batchDir, 'batch-000001.json'), 'utf8')).length, 9);
+
+        // Replaying reads every batch, so the trigger's edge is there twice
+        const replayed = await createFixtureSource(dir).queryDependencies(ids);
+        assert.equal(replayed.records.length, 9 + 1);
+    });
+});
@@ -0,0 +1,63 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initDb, insertComponents, insertDependencyEdges } from '../src/db';
+import { checkPackages, mapComponentsToPackages } from '../src/packages';
+
+describe('package boundaries', () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-viewer-test-'));
+    const project = path.join(tmp, 'project');
+    const writeFile = (file: string, content = '') => {
+        fs.mkdirSync(path.dirname(path.join(project, file)), { recursive: true });
+        fs.writeFileSync(path.join(project, file), content);
+    };
+
+    before(() => {
+        writeFile('sfdx-project.json', JSON.stringify({
+            packageDirectories: [
+                { path: 'core', package: 'core' },
+                { path: 'app', package: 'app', dependencies: [{ package: 'core' }] }
+            ]
+        }));
+        writeFile('core/classes/CoreService.cls');
+        writeFile('core/objects/Account/Account.object-meta.xml');
+        writeFile('app/classes/AppService.cls');
+        // app customizes Account as well, core must still be allowed to use it
+        writeFile('app/objects/Account/Account.object-meta.xml');
+
+        process.env.DATABASE_PATH = path.join(tmp, 'project.db');
+        initDb();
+        insertComponents([
+            { id: 'ApexClass:CoreService', name: 'CoreService', type: 'ApexClass' },
+            { id: 'ApexClass:AppService', name: 'AppService', type: 'ApexClass' },
+            { id: 'CustomObject:Account', name: 'Account', type: 'CustomObject' }
+        ]);
+        insertDependencyEdges([
+            { sourceId: 'ApexClass:CoreService', targetId: 'CustomObject:Account' },
+            { sourceId: 'ApexClass:AppService', targetId: 'CustomObject:Account' },
+            { sourceId: 'ApexClass:CoreService', targetId: 'ApexClass:AppService' }
+        ]);
+    });
+
+    after(() => {
+        fs.rmSync(tmp, { recursive: true, force: true });
+    });
+
+    it('keeps every package a component is customized in', () => {
+        const assignments = mapComponentsToPackages(project);
+
+        assert.deepEqual(assignments.get('CustomObject:Account'), ['core', 'app']);
+        assert.deepEqual(assignments.get('ApexClass:AppService'), ['app']);
+    });
+
+    it('only reports dependencies no package of the target allows', () => {
+        const check = checkPackages(project);
+
+        assert.deepEqual(check.violations.map(v => [v.sourcePackage, v.targetPackage, v.edges.map(e => e.target.name)]), [
+            ['core', 'app', ['AppService']]
+        ]);
+        assert.deepEqual(check.packages.map(p => [p.name, p.components]), [['core', 2], ['app', 2]]);
+    });
+});
@@ -0,0 +1,44 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getComponentByName, getDb, initDb } from '../src/db';
+import { createFixtureSource } from '../src/fixtureSource';
+import { computeRiskScores, riskScore } from '../src/risk';
+import { syncOrg } from '../src/sync';
+
+const SAMPLE_ORG = path.join(__dirname, '..', 'fixtures', 'sample-org');
+
+describe('risk scores', () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-viewer-test-'));
+
+    before(async () => {
+        process.env.DATABASE_PATH = path.join(tmp, 'sample-org.db');
+        initDb();
+        await syncOrg(createFixtureSource(SAMPLE_ORG), { cleaned: true });
+    });
+
+    after(() => {
+        fs.rmSync(tmp, { recursive: true, force: true });
+    });
+
+    it('scores unknown coverage between covered and uncovered', () => {
+        const unknown = riskScore(null, 1000, 50);
+
+        assert.ok(unknown > riskScore(100, 1000, 50));
+        assert.ok(unknown < riskScore(0, 1000, 50));
+    });
+
+    it('treats Apex without coverage as untested only when coverage was synced', () => {
+        const deadA = getComponentByName('ApexClass', 'DeadA')!;
+        const scoreOf = () => computeRiskScores().find(s => s.id === deadA.id)!;
+
+        const synced = scoreOf();
+        assert.equal(synced.risk, riskScore(0, deadA.size, synced.fanIn));
+        getDb().exec('UPDATE metadata_components SET coverage = NULL');
+        const scanned = scoreOf();
+        assert.equal(scanned.risk, riskScore(null, deadA.size, scanned.fanIn));
+        assert.ok(scanned.risk < synced.risk);
+    });
+});
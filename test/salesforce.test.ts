@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataSource, DEPENDENCY_RECORD_LIMIT } from '../src/dataSource';
+import { fetchAllDependencies, SyncFailure } from '../src/salesforce';
+
+// Every component references more than one query returns
+function overflowingSource(): DataSource {
+    const row = (id: string, i: number) => ({ MetadataComponentId: id, RefMetadataComponentId: `${id}-ref-${i}` });
+    return {
+        name: 'overflowing',
+        describeMetadata: async () => [],
+        listMetadata: async () => [],
+        queryDependencies: async (ids: string[]) => ({
+            records: Array.from({ length: DEPENDENCY_RECORD_LIMIT }, (_, i) => row(ids[i % ids.length], i)),
+            truncated: true
+        }),
+        queryDependenciesForId: async () => [],
+        queryApexStats: async () => [],
+        openRecord: async () => undefined
+    };
+}
+
+describe('fetchAllDependencies', () => {
+    it('records components over the row limit on their own as failed, keeping their edges', async () => {
+        const failures: SyncFailure[] = [];
+        const records = await fetchAllDependencies(overflowingSource(), [{ id: 'A' }, { id: 'B' }], failures);
+
+        assert.equal(records.length, 2 * DEPENDENCY_RECORD_LIMIT);
+        assert.deepEqual(failures.map(f => [f.phase, f.key, f.ids]), [
+            ['dependencies', 'A', ['A']],
+            ['dependencies', 'B', ['B']]
+        ]);
+    });
+});
@@ -0,0 +1,66 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    createSnapshot, getComponentByName, getDb, getDependenciesForComponent, getSyncFailures, getSyncRuns, initDb,
+    insertDependencyEdges, recordSyncFailures
+} from '../src/db';
+import { createFixtureSource } from '../src/fixtureSource';
+import { syncOrg } from '../src/sync';
+
+const SAMPLE_ORG = path.join(__dirname, '..', 'fixtures', 'sample-org');
+
+describe('sync', () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-viewer-test-'));
+    const source = createFixtureSource(SAMPLE_ORG);
+
+    before(async () => {
+        process.env.DATABASE_PATH = path.join(tmp, 'sample-org.db');
+        initDb();
+        await syncOrg(source, { cleaned: true });
+    });
+
+    after(() => {
+        fs.rmSync(tmp, { recursive: true, force: true });
+    });
+
+    it('replaces the edges of retried dependency batches and clears their failures', async () => {
+        const service = getComponentByName('ApexClass', 'AccountService')!;
+        const deadA = getComponentByName('ApexClass', 'DeadA')!;
+        // An edge the org no longer has, and a failed batch for its source
+        insertDependencyEdges([{ sourceId: service.id, targetId: deadA.id }]);
+        recordSyncFailures([{ phase: 'dependencies', key: 'batch 1', ids: [service.id], error: 'timeout', attempts: 1 }]);
+
+        const failures = await syncOrg(source, { retryFailed: true });
+
+        assert.deepEqual(failures, []);
+        assert.deepEqual(getSyncFailures(), []);
+        const targets = (getDependenciesForComponent(service.id) as any[])
+            .filter(d => d.metadataComponentId === service.id)
+            .map(d => d.refMetadataComponentName)
+            .sort();
+        assert.deepEqual(targets, ['Invoice__c', 'Invoice__c.Amount__c']);
+    });
+
+    it('keeps only the last runs and their snapshots', () => {
+        const runIds = Array.from({ length: 4 }, () => createSnapshot('sample-org', 'full', 0, 2));
+
+        assert.deepEqual(getSyncRuns().map(run => run.id), runIds.slice(2));
+        const snapshotRuns = getDb().prepare('SELECT DISTINCT runId FROM snapshot_components ORDER BY runId').all()
+            .map((row: any) => row.runId);
+        assert.deepEqual(snapshotRuns, runIds.slice(2));
+    });
+
+    it('leaves out components only dependencies point at when the filters exclude them', async () => {
+        await syncOrg(source, { filters: { types: { exclude: ['StandardEntity'] } } });
+
+        assert.equal(getComponentByName('StandardEntity', 'Account'), undefined);
+        const handler = getComponentByName('ApexClass', 'AccountHandler')!;
+        const targets = (getDependenciesForComponent(handler.id) as any[])
+            .filter(d => d.metadataComponentId === handler.id)
+            .map(d => d.refMetadataComponentName);
+        assert.deepEqual(targets, ['AccountService']);
+    });
+});
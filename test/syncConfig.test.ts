@@ -0,0 +1,69 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_SYNC_FILTERS, loadSyncFilters } from '../src/syncConfig';
+
+describe('loadSyncFilters', () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-viewer-test-'));
+    const writeConfig = (config: unknown) => {
+        const configPath = path.join(tmp, 'dep-viewer.config.json');
+        fs.writeFileSync(configPath, JSON.stringify(config));
+        return configPath;
+    };
+
+    after(() => {
+        fs.rmSync(tmp, { recursive: true, force: true });
+    });
+
+    it('uses the built-in filters without a config file', () => {
+        assert.deepEqual(loadSyncFilters('prod', path.join(tmp, 'missing.json')), DEFAULT_SYNC_FILTERS);
+    });
+
+    it('keeps the built-in type exclusions when the config sets other rules', () => {
+        const configPath = writeConfig({ default: { names: { exclude: ['Legacy*'] } } });
+
+        assert.deepEqual(loadSyncFilters('prod', configPath), {
+            types: DEFAULT_SYNC_FILTERS.types,
+            names: { exclude: ['Legacy*'] }
+        });
+    });
+
+    it('adds configured type exclusions to the built-in ones', () => {
+        const configPath = writeConfig({ default: { types: { exclude: ['Report'] } } });
+
+        assert.deepEqual(loadSyncFilters('prod', configPath), {
+            types: { exclude: [...DEFAULT_SYNC_FILTERS.types!.exclude!, 'Report'] }
+        });
+    });
+
+    it('replaces single include and exclude lists, org rules last', () => {
+        const configPath = writeConfig({
+            default: { types: { include: ['Apex*'], exclude: ['ApexPage'] }, namespaces: { exclude: ['et4ae5'] } },
+            orgs: { prod: { types: { exclude: [] }, namespaces: { include: [''] } } }
+        });
+        const builtIn = DEFAULT_SYNC_FILTERS.types!.exclude!;
+
+        assert.deepEqual(loadSyncFilters('prod', configPath), {
+            types: { include: ['Apex*'], exclude: builtIn },
+            namespaces: { include: [''], exclude: ['et4ae5'] }
+        });
+        assert.deepEqual(loadSyncFilters('dev', configPath), {
+            types: { include: ['Apex*'], exclude: [...builtIn, 'ApexPage'] },
+            namespaces: { exclude: ['et4ae5'] }
+        });
+    });
+
+    it('leaves the built-in exclusions out when the config turns them off', () => {
+        const configPath = writeConfig({ builtInExcludes: false, default: { types: { exclude: ['Report'] } } });
+
+        assert.deepEqual(loadSyncFilters('prod', configPath), { types: { exclude: ['Report'] } });
+    });
+
+    it('rejects rules that are not objects', () => {
+        const configPath = writeConfig({ default: { types: null } });
+
+        assert.throws(() => loadSyncFilters('prod', configPath), /default\.types must be an object/);
+    });
+});
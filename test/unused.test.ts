@@ -0,0 +1,45 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getDb, initDb } from '../src/db';
+import { createFixtureSource } from '../src/fixtureSource';
+import { syncOrg } from '../src/sync';
+import { findUnused } from '../src/unused';
+
+const SAMPLE_ORG = path.join(__dirname, '..', 'fixtures', 'sample-org');
+
+describe('findUnused', () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-viewer-test-'));
+
+    before(async () => {
+        process.env.DATABASE_PATH = path.join(tmp, 'sample-org.db');
+        initDb();
+        await syncOrg(createFixtureSource(SAMPLE_ORG), { cleaned: true });
+    });
+
+    after(() => {
+        fs.rmSync(tmp, { recursive: true, force: true });
+    });
+
+    it('reports classes that only reference each other and keeps entry points', () => {
+        const report = findUnused();
+
+        assert.deepEqual(report.candidates.map(c => c.name), ['DeadA', 'DeadB']);
+        assert.deepEqual(report.candidates[0].referencedBy, ['DeadB']);
+        assert.deepEqual(report.entryPoints, { 'REST resource': 1, 'Test class': 1 });
+        assert.equal(report.unchecked, 0);
+    });
+
+    it('leaves out Apex classes that were not checked for entry points', () => {
+        getDb().exec("UPDATE metadata_components SET entryPoint = NULL WHERE name IN ('MyRestApi', 'DeadA')");
+
+        const report = findUnused();
+
+        // DeadA is not reported, and it still uses DeadB
+        assert.deepEqual(report.candidates, []);
+        assert.equal(report.unchecked, 2);
+        assert.deepEqual(report.entryPoints, { 'Test class': 1 });
+    });
+});